@@ -25,6 +25,7 @@ import {ERC20} from "@openzeppelin/token/ERC20/ERC20.sol";
 import {ERC20Permit} from "@openzeppelin/token/ERC20/extensions/ERC20Permit.sol";
 import {IERC20} from "@openzeppelin/token/ERC20/IERC20.sol";
 import {IERC20Metadata} from "@openzeppelin/token/ERC20/extensions/IERC20Metadata.sol";
+import {IERC20Permit} from "@openzeppelin/token/ERC20/extensions/IERC20Permit.sol";
 import {SafeERC20} from "@openzeppelin/token/ERC20/utils/SafeERC20.sol";
 import {Math} from "@openzeppelin/utils/math/Math.sol";
 import {ReentrancyGuard} from "@openzeppelin/utils/ReentrancyGuard.sol";
@@ -244,6 +245,30 @@ contract FlyingICO is ERC20, ERC20Permit, ReentrancyGuard {
         IERC20(asset).safeTransferFrom(msg.sender, address(this), assetAmount);
     }
 
+    /// @notice Deposit an accepted EIP-2612 token, approving this contract for `assetAmount` with a signed permit
+    /// @dev A failing permit is ignored so a front-run permit cannot block the deposit; the transfer still
+    ///      reverts if the allowance does not cover `assetAmount`.
+    /// @param asset the asset to deposit
+    /// @param assetAmount the amount of asset to deposit, and the permit value
+    /// @param deadline the permit deadline
+    /// @param v the permit signature's v
+    /// @param r the permit signature's r
+    /// @param s the permit signature's s
+    /// @return positionId the id of the position created
+    function depositERC20WithPermit(
+        address asset,
+        uint256 assetAmount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external nonReentrant returns (uint256 positionId) {
+        try IERC20Permit(asset).permit(msg.sender, address(this), assetAmount, deadline, v, r, s) {} catch {}
+
+        positionId = _deposit(asset, assetAmount);
+        IERC20(asset).safeTransferFrom(msg.sender, address(this), assetAmount);
+    }
+
     /// @notice Redeem some or all of your Perpetual PUT (burn locked Tokens and receive the original asset back at par)
     /// @param positionId Id of the position created at deposit
     /// @param tokensToBurn amount of Tokens (in Tokens units) to redeem from that position
@@ -0,0 +1,129 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {BaseTest} from "./BaseTest.sol";
+import {FlyingICO} from "../../src/FlyingICO.sol";
+import {MockERC20Permit} from "../mocks/MockERC20Permit.sol";
+import {MockChainlinkPriceFeed} from "../mocks/MockChainlinkPriceFeed.sol";
+
+contract FlyingICODepositERC20WithPermitTest is BaseTest {
+    bytes32 private constant PERMIT_TYPEHASH =
+        keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)");
+
+    MockERC20Permit public dai;
+    FlyingICO public permitIco;
+
+    address public alice;
+    uint256 public aliceKey;
+
+    function setUp() public override {
+        super.setUp();
+
+        (alice, aliceKey) = makeAddrAndKey("alice");
+
+        dai = new MockERC20Permit("Dai Stablecoin", "DAI", 18);
+        MockChainlinkPriceFeed daiPriceFeed = new MockChainlinkPriceFeed(8, USDC_PRICE);
+
+        address[] memory acceptedAssets = new address[](2);
+        acceptedAssets[0] = address(dai);
+        acceptedAssets[1] = address(usdc);
+
+        address[] memory priceFeeds = new address[](2);
+        priceFeeds[0] = address(daiPriceFeed);
+        priceFeeds[1] = address(usdcPriceFeed);
+
+        uint256[] memory permitFrequencies = new uint256[](2);
+        permitFrequencies[0] = 1 hours;
+        permitFrequencies[1] = 1 hours;
+
+        permitIco = new FlyingICO(
+            "Flying Token",
+            "FLY",
+            TOKEN_CAP,
+            TOKENS_PER_USD,
+            acceptedAssets,
+            priceFeeds,
+            permitFrequencies,
+            sequencer,
+            treasury,
+            vestingStart,
+            vestingEnd
+        );
+
+        dai.mint(alice, 1000000e18);
+        usdc.mint(alice, 1000000e6);
+    }
+
+    function _signPermit(uint256 value, uint256 deadline) internal view returns (uint8 v, bytes32 r, bytes32 s) {
+        bytes32 structHash =
+            keccak256(abi.encode(PERMIT_TYPEHASH, alice, address(permitIco), value, dai.nonces(alice), deadline));
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", dai.DOMAIN_SEPARATOR(), structHash));
+        (v, r, s) = vm.sign(aliceKey, digest);
+    }
+
+    function test_DepositERC20WithPermit_Success() public {
+        uint256 daiAmount = 1000e18; // 1000 DAI = $1000 USD
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(daiAmount, deadline);
+
+        vm.expectEmit(true, true, false, true);
+        emit FlyingICO__Deposited(alice, 0, address(dai), daiAmount, 10000e18);
+
+        vm.prank(alice);
+        uint256 positionId = permitIco.depositERC20WithPermit(address(dai), daiAmount, deadline, v, r, s);
+
+        assertEq(positionId, 0);
+        assertEq(dai.nonces(alice), 1);
+        assertEq(dai.allowance(alice, address(permitIco)), 0);
+        assertEq(dai.balanceOf(address(permitIco)), daiAmount);
+        assertEq(permitIco.backingBalances(address(dai)), daiAmount);
+    }
+
+    function test_DepositERC20WithPermit_FrontRunPermit() public {
+        uint256 daiAmount = 1000e18;
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(daiAmount, deadline);
+
+        // anyone can submit the signed permit first, consuming the nonce
+        dai.permit(alice, address(permitIco), daiAmount, deadline, v, r, s);
+
+        vm.prank(alice);
+        uint256 positionId = permitIco.depositERC20WithPermit(address(dai), daiAmount, deadline, v, r, s);
+
+        assertEq(positionId, 0);
+        assertEq(dai.balanceOf(address(permitIco)), daiAmount);
+    }
+
+    function test_DepositERC20WithPermit_NonPermitTokenWithAllowance() public {
+        uint256 usdcAmount = 1000e6;
+
+        vm.startPrank(alice);
+        usdc.approve(address(permitIco), usdcAmount);
+        uint256 positionId = permitIco.depositERC20WithPermit(address(usdc), usdcAmount, 0, 0, bytes32(0), bytes32(0));
+        vm.stopPrank();
+
+        assertEq(positionId, 0);
+        assertEq(usdc.balanceOf(address(permitIco)), usdcAmount);
+    }
+
+    function test_DepositERC20WithPermit_RevertWhen_ExpiredDeadline() public {
+        uint256 daiAmount = 1000e18;
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(daiAmount, deadline);
+
+        vm.warp(deadline + 1);
+
+        vm.prank(alice);
+        vm.expectRevert(); // permit fails, then ERC20 insufficient allowance
+        permitIco.depositERC20WithPermit(address(dai), daiAmount, deadline, v, r, s);
+    }
+
+    function test_DepositERC20WithPermit_RevertWhen_SignedForLessThanDeposit() public {
+        uint256 deadline = block.timestamp + 1 hours;
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(100e18, deadline);
+
+        vm.prank(alice);
+        vm.expectRevert(); // signature does not match the value, ERC20 insufficient allowance
+        permitIco.depositERC20WithPermit(address(dai), 1000e18, deadline, v, r, s);
+    }
+}
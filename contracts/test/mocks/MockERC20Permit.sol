@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import {ERC20} from "@openzeppelin/token/ERC20/ERC20.sol";
+import {ERC20Permit} from "@openzeppelin/token/ERC20/extensions/ERC20Permit.sol";
+import {MockERC20} from "./MockERC20.sol";
+
+contract MockERC20Permit is MockERC20, ERC20Permit {
+    constructor(string memory name, string memory symbol, uint8 decimals_)
+        MockERC20(name, symbol, decimals_)
+        ERC20Permit(name)
+    {}
+
+    function decimals() public view override(ERC20, MockERC20) returns (uint8) {
+        return MockERC20.decimals();
+    }
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { useChainId } from 'wagmi';
+import { graphqlClient, GET_CREATOR, type CreatorDetail, type CreatorICO, type GetCreatorResult } from '@/lib/graphql';
+import { formatAddress, formatNumber } from '@/app/utils/helper';
+import { chainByID } from '@/app/utils/chains';
+
+const formatUsd = (value: number) =>
+  value.toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
+
+const formatDate = (timestamp: string) => new Date(parseInt(timestamp) * 1000).toLocaleDateString();
+
+// deposits are valued at the oracle price of the deposit block
+const raisedUsd = (ico: CreatorICO) =>
+  ico.acceptedAssets.reduce((sum, asset) => sum + parseFloat(asset.depositedUsd), 0);
+
+export default function CreatorPage() {
+  const params = useParams();
+  const address = params.address as string;
+  const chain = chainByID(useChainId());
+  const [creator, setCreator] = useState<CreatorDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    async function fetchCreator() {
+      try {
+        const data = await graphqlClient.request<GetCreatorResult>(GET_CREATOR, { id: address.toLowerCase() });
+        setCreator(data.creator);
+      } catch (error) {
+        console.error('Error fetching creator:', error);
+      } finally {
+        setLoading(false);
+      }
+    }
+    if (address) {
+      fetchCreator();
+    }
+  }, [address]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-dark-primary dark:to-black">
+        <div className="text-center py-12">
+          <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+          <p className="mt-4 text-gray-600 dark:text-white">Loading creator...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!creator) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-dark-primary dark:to-black">
+        <div className="text-center py-12">
+          <p className="text-gray-600 dark:text-white">No launches found for {formatAddress(address)}</p>
+          <Link href="/vaults" className="mt-4 inline-block text-primary hover:text-primary/70">
+            Back to Vaults
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const totalRaised = creator.icos.reduce((sum, ico) => sum + raisedUsd(ico), 0);
+  const totalAvailable = creator.icos.reduce((sum, ico) => sum + parseFloat(ico.availableUsd), 0);
+  const totalHolders = creator.icos.reduce((sum, ico) => sum + parseInt(ico.holderCount), 0);
+
+  const stats = [
+    { label: 'Launches', value: creator.icoCount },
+    { label: 'Total Raised', value: formatUsd(totalRaised) },
+    { label: 'Treasury Available', value: formatUsd(totalAvailable) },
+    { label: 'Token Holders', value: totalHolders.toString() },
+  ];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-dark-primary dark:to-black">
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 dark:text-white">Creator</h1>
+          <a
+            href={`${chain.blockExplorerUrl}/address/${creator.id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary hover:text-primary/70 break-all"
+          >
+            {creator.id}
+          </a>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Launching since {formatDate(creator.firstLaunchAt)}, last launch {formatDate(creator.lastLaunchAt)}
+          </p>
+        </div>
+
+        <div className="grid gap-4 grid-cols-2 md:grid-cols-4 mb-8">
+          {stats.map((stat) => (
+            <div key={stat.label} className="bg-white dark:bg-dark-primary rounded-xl p-4 shadow-lg border-2 border-gray-200 dark:border-gray-700">
+              <p className="text-sm text-gray-500 dark:text-gray-400">{stat.label}</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          {creator.icos.map((ico) => (
+            <div key={ico.id} className="bg-white dark:bg-dark-primary rounded-xl p-6 shadow-lg border-2 border-gray-200 dark:border-gray-700">
+              <div className="flex items-start justify-between mb-4">
+                <div>
+                  <Link href={`/vaults/${ico.id}`} className="text-xl font-bold text-gray-900 dark:text-white hover:text-primary">
+                    {ico.name}
+                  </Link>
+                  <p className="text-sm text-gray-500 dark:text-gray-400">{ico.symbol}</p>
+                </div>
+                <span className="px-2 py-1 bg-gray-100 dark:bg-black text-gray-700 dark:text-gray-300 text-xs rounded">
+                  {(ico.capUtilizationBps / 100).toFixed(2)}% of cap
+                </span>
+              </div>
+
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-300">Raised:</span>
+                  <span className="font-semibold text-gray-900 dark:text-white">{formatUsd(raisedUsd(ico))}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-300">TVL:</span>
+                  <span className="font-semibold text-gray-900 dark:text-white">{formatUsd(parseFloat(ico.tvlUsd))}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-300">Holders / Positions:</span>
+                  <span className="font-semibold text-gray-900 dark:text-white">
+                    {ico.holderCount} / {ico.positionCount}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600 dark:text-gray-300">Treasury Available:</span>
+                  <span className="font-semibold text-gray-900 dark:text-white">{formatUsd(parseFloat(ico.availableUsd))}</span>
+                </div>
+                {ico.acceptedAssets.map((asset) => (
+                  <div key={asset.id} className="flex justify-between pl-4">
+                    <span className="text-gray-500 dark:text-gray-400">{asset.symbol}</span>
+                    <span className="text-gray-900 dark:text-white">{formatNumber(asset.availableAssets, asset.decimals)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between gap-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+                  <span className="text-sm text-gray-500 dark:text-gray-400">Launched {formatDate(ico.createdAt)}</span>
+                  <a
+                    href={`${chain.blockExplorerUrl}/tx/${ico.creationTransaction}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-sm text-primary hover:text-primary/70"
+                  >
+                    {formatAddress(ico.creationTransaction)}
+                  </a>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+}
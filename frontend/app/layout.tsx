@@ -4,6 +4,8 @@ import "./globals.css";
 import { Providers } from "./providers";
 import { Toaster } from "react-hot-toast";
 import { Navbar } from '@/components/Navbar';
+import { ReferralCapture } from '@/components/ReferralCapture';
+import { Suspense } from "react";
 
 const dmSansMono = DM_Sans({
   subsets: ["latin"],
@@ -80,6 +82,9 @@ export default function RootLayout({
     <html lang="en">
       <body className={`${dmSansMono.variable} ${manrope.variable} antialiased`}>
         <Providers>
+          <Suspense fallback={null}>
+            <ReferralCapture />
+          </Suspense>
           <Navbar />
           {children}
           <Toaster 
@@ -0,0 +1,12 @@
+// Whether ERC20 approvals cover only the deposit at hand or every future
+// deposit into the same ICO. Exact by default, remembered across visits.
+export const APPROVAL_STORAGE_KEY = 'flying:unlimited-approval';
+
+export const getUnlimitedApproval = (): boolean => {
+  if (typeof window === 'undefined') return false;
+  return window.localStorage.getItem(APPROVAL_STORAGE_KEY) === 'true';
+};
+
+export const storeUnlimitedApproval = (unlimited: boolean) => {
+  window.localStorage.setItem(APPROVAL_STORAGE_KEY, String(unlimited));
+};
@@ -0,0 +1,30 @@
+import { concat, stringToHex, toHex, type Hex } from 'viem';
+
+// Referral codes ride along deposits as a calldata suffix the contract
+// ignores: code bytes, one length byte, then the "FLYR" marker. The subgraph
+// decodes it from the transaction input (see indexer/src/referrals.ts).
+export const REFERRAL_MARKER: Hex = '0x464c5952';
+export const REFERRAL_STORAGE_KEY = 'flying:referral';
+
+const REFERRAL_CODE_PATTERN = /^[a-z0-9_-]{1,32}$/;
+
+export const normalizeReferralCode = (code: string | null | undefined): string | null => {
+  const normalized = code?.trim().toLowerCase() ?? '';
+  return REFERRAL_CODE_PATTERN.test(normalized) ? normalized : null;
+};
+
+export const getStoredReferralCode = (): string | null => {
+  if (typeof window === 'undefined') return null;
+  return normalizeReferralCode(window.localStorage.getItem(REFERRAL_STORAGE_KEY));
+};
+
+export const storeReferralCode = (code: string) => {
+  window.localStorage.setItem(REFERRAL_STORAGE_KEY, code);
+};
+
+export const withReferralSuffix = (data: Hex, code: string | null): Hex => {
+  const referral = normalizeReferralCode(code);
+  if (!referral) return data;
+
+  return concat([data, stringToHex(referral), toHex(referral.length, { size: 1 }), REFERRAL_MARKER]);
+};
@@ -5,63 +5,26 @@ import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { PositionCard } from '@/components/PositionCard';
 import { DepositModal } from '@/components/DepositModal';
-import { graphqlClient, GET_STAK_VAULT } from '@/lib/graphql';
+import { graphqlClient, GET_FLYING_ICO, type GetFlyingICOResult, type ICODetail } from '@/lib/graphql';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, LineChart, Line, XAxis, YAxis, CartesianGrid } from 'recharts';
 import { useAccount } from 'wagmi';
 import { formatNumber } from '@/app/utils/helper';
 
-interface FlyingPosition {
-  id: string;
-  positionId: string;
-  user: string;
-  assetAmount: string;
-  shareAmount: string;
-  sharesUnlocked: string;
-  assetsDivested: string;
-  vestingAmount: string;
-  initialAssets: string;
-  isClosed: boolean;
-  createdAt: string;
-}
-
-interface FlyingICO {
-  id: string;
-  asset: string;
-  name: string;
-  symbol: string;
-  decimals: string;
-  owner: string;
-  treasury: string;
-  performanceRate: string;
-  vestingStart: string;
-  vestingEnd: string;
-  redeemsAtNavEnabled: boolean;
-  totalPerformanceFees: string;
-  totalAssets: string;
-  investedAssets: string;
-  redeemableAssets: string;
-  totalSupply: string;
-  totalShares: string;
-  divestFee: string;
-  positionCount: string;
-  positions: FlyingPosition[];
-}
-
 const COLORS = ['#1d7a89', '#ec8cab', '#f5b342', '#2fc7a8'];
 
 export default function VaultDetailPage() {
   const params = useParams();
   const address = params.address as string;
   const { address: userAddress, isConnected } = useAccount();
-  const [vault, setVault] = useState<FlyingICO | null>(null);
+  const [vault, setVault] = useState<ICODetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [isDepositModalOpen, setIsDepositModalOpen] = useState(false);
 
   useEffect(() => {
     async function fetchVault() {
       try {
-        const data = await graphqlClient.request<{ flyingVault: FlyingVault }>(GET_FLYING_VAULT, { id: address.toLowerCase() });
-        setVault(data.flyingVault);
+        const data = await graphqlClient.request<GetFlyingICOResult>(GET_FLYING_ICO, { id: address.toLowerCase() });
+        setVault(data.flyingICO);
       } catch (error) {
         console.error('Error fetching vault:', error);
       } finally {
@@ -105,13 +68,14 @@ export default function VaultDetailPage() {
     );
   }
 
-  const totalAssets = formatNumber(vault.totalAssets, vault.decimals) + formatNumber(vault.investedAssets, vault.decimals);
-  const investedAssets = formatNumber(vault.investedAssets, vault.decimals);
-  const totalShares = formatNumber(vault.totalShares, vault.decimals);
-  const totalSupply = formatNumber(vault.totalSupply, vault.decimals);
-  const pricePerShare = totalSupply > 0 ? totalAssets / totalSupply : 1.00;
-  const divestFee = formatNumber(vault.divestFee, "4");
+  // USD values at the latest oracle prices; the ICO token has 18 decimals
+  const totalAssets = parseFloat(vault.tvlUsd);
+  const totalShares = formatNumber(vault.lockedSupply);
+  const totalSupply = formatNumber(vault.totalSupply);
+  const pricePerShare = totalSupply > 0 ? totalAssets / totalSupply : 1 / parseInt(vault.tokensPerUsd);
 
+  const assetOf = (address: string) => vault.acceptedAssets.find((asset) => asset.address === address);
+  const assetPrice = (address: string) => parseFloat(assetOf(address)?.priceFeed?.oracle.price ?? '0');
 
   let vestingRate = (parseInt(vault.vestingEnd) - (new Date().getTime() / 1000)) / (parseInt(vault.vestingEnd) - parseInt(vault.vestingStart));
   vestingRate = Math.max(0, Math.min(1, vestingRate));
@@ -132,8 +96,8 @@ export default function VaultDetailPage() {
     },
   ];
 
-  let redeemableAssets = formatNumber(vault.redeemableAssets, vault.decimals)
-  redeemableAssets = redeemableAssets * vestingRate;
+  // backing of the tokens still under PUT, redeemable at the vesting rate
+  const redeemableAssets = parseFloat(vault.backingUsd) * vestingRate;
   const vestedAssets = totalAssets - redeemableAssets;
 
   const liabilitiesData = [
@@ -147,25 +111,11 @@ export default function VaultDetailPage() {
     },
   ];  
 
-  // Strategy distribution data
-  const liquidatableStrategy = investedAssets * 0.7;
-  const riskStrategy = investedAssets * 0.3;
-
-  // Pie chart data
-  const pieData = [
-    {
-      name: 'Cash',
-      value: formatNumber(vault.totalAssets, vault.decimals),
-    },
-    {
-      name: 'Redeemable Vault',
-      value: liquidatableStrategy,
-    },
-    {
-      name: 'Vested Vault',
-      value: riskStrategy,
-    },
-  ];
+  // Asset distribution data
+  const pieData = vault.acceptedAssets.map((asset) => ({
+    name: asset.symbol,
+    value: parseFloat(asset.totalUsd),
+  }));
 
   // Vesting schedule data
   const vestingData = (() => {
@@ -235,7 +185,7 @@ export default function VaultDetailPage() {
           <div className="grid md:grid-cols-4 gap-4 mb-8">
             <div className="bg-gray-50 dark:bg-dark-primary rounded-xl p-4">
               <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Total Assets</p>
-              <p className="text-2xl font-bold text-gray-900 dark:text-white">{totalAssets.toFixed(2)}</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">$ {totalAssets.toFixed(2)}</p>
             </div>
             {/* <div className="bg-gray-50 dark:bg-dark-primary rounded-xl p-4">
               <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Invested Assets</p>
@@ -284,7 +234,7 @@ export default function VaultDetailPage() {
                             <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                           ))}
                         </Pie>
-                        <Tooltip formatter={(value: number) => formatNumber((value * 1e18).toString())} />
+                        <Tooltip formatter={(value: number) => `$ ${value.toFixed(2)}`} />
                       </PieChart>
                     </ResponsiveContainer>
                   </div>
@@ -468,12 +418,10 @@ export default function VaultDetailPage() {
                     key={position.id}
                     position={position}
                     vaultAddress={address as `0x${string}`}
-                    vaultDecimals={vault.decimals}
+                    assetDecimals={assetOf(position.asset)?.decimals ?? '18'}
+                    assetPriceUsd={assetPrice(position.asset)}
                     vestingRate={vestingRate}
-                    pricePerShare={pricePerShare}
-                    assetAddress={vault.asset as `0x${string}`}
                     vaultSymbol={vault.symbol}
-                    vaultDivestFee={divestFee}
                   />
                 ))}
               </div>
@@ -483,14 +431,15 @@ export default function VaultDetailPage() {
       </main>
 
       {/* Deposit Modal */}
-      {vault && (
+      {vault.acceptedAssets.length > 0 && (
         <DepositModal
           isOpen={isDepositModalOpen}
           onClose={() => setIsDepositModalOpen(false)}
           vaultAddress={address as `0x${string}`}
-          assetAddress={vault.asset as `0x${string}`}
-          assetDecimals={vault.decimals}
-          assetSymbol={vault.symbol}
+          vaultSymbol={vault.symbol}
+          acceptedAssets={vault.acceptedAssets}
+          tokensPerUsd={vault.tokensPerUsd}
+          tokenCapAmount={vault.tokenCapAmount}
         />
       )}
     </div>
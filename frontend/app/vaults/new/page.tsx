@@ -6,146 +6,269 @@ import Link from 'next/link';
 import { useAccount } from 'wagmi';
 import { readContract, writeContract, waitForTransactionReceipt } from '@wagmi/core';
 import { config } from '@/lib/wagmi';
-import { parseUnits, isAddress, erc20Abi, type Address } from 'viem';
+import { erc20Abi, isAddress, parseEventLogs, zeroAddress, type Address } from 'viem';
 import toast from 'react-hot-toast';
-import VaultFactoryABI from '@/app/abis/VaultFactory.json';
+import {
+  ETH_ADDRESS,
+  FACTORY_ADDRESS,
+  MAX_ASSET_DECIMALS,
+  MAX_FEED_DECIMALS,
+  MAX_FREQUENCY,
+  aggregatorAbi,
+  factory,
+  factoryAbi,
+} from '@/lib/contracts';
+import { formatAddress } from '@/app/utils/helper';
+
+const STEPS = ['Token', 'Assets', 'Settings', 'Review'] as const;
+
+const INPUT_CLASS = 'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+interface AssetRow {
+  asset: string;
+  priceFeed: string;
+  frequency: string; // heartbeat, in seconds
+}
+
+// what the constructor reads from an asset or feed, while being read or once the read failed
+type AssetInfo = { symbol: string; decimals: number } | 'loading' | 'error';
+type FeedInfo = { decimals: number } | 'loading' | 'error';
+
+const EMPTY_ROW: AssetRow = { asset: '', priceFeed: '', frequency: '3600' };
+
+const WHOLE_NUMBER = /^\d+$/;
+
+const toTimestamp = (value: string) => Math.floor(new Date(value).getTime() / 1000);
+
+// createFlyingIco reverts unless vesting starts after the block it lands in,
+// so leave time for signing and inclusion
+const VESTING_START_MARGIN = 5 * 60; // seconds
+
+const startsInTime = (vestingStart: string) =>
+  toTimestamp(vestingStart) > Math.floor(Date.now() / 1000) + VESTING_START_MARGIN;
+
+const formatDuration = (seconds: number) => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  return days > 0 ? `${days}d ${hours}h` : `${hours}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
+const formatUsd = (value: number) =>
+  value.toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: value < 1 ? 6 : 2 });
 
 export default function NewVaultPage() {
   const router = useRouter();
   const { isConnected } = useAccount();
   const [loading, setLoading] = useState(false);
-  const [assetDecimals, setAssetDecimals] = useState<number | null>(null);
+  const [step, setStep] = useState(0);
+  // show the errors of empty fields too, once Next was refused
+  const [attempted, setAttempted] = useState(false);
   const [formData, setFormData] = useState({
-    asset: '',
     name: '',
     symbol: '',
-    owner: '',
+    tokenCap: '',
+    tokensPerUsd: '',
+    sequencer: '',
     treasury: '',
-    performanceRate: '',
     vestingStart: '',
     vestingEnd: '',
-    startingPrice: '',
-    divestFee: '',
   });
+  const [rows, setRows] = useState<AssetRow[]>([EMPTY_ROW]);
+  const [assetInfo, setAssetInfo] = useState<Record<string, AssetInfo>>({
+    [ETH_ADDRESS]: { symbol: 'ETH', decimals: 18 },
+  });
+  const [feedInfo, setFeedInfo] = useState<Record<string, FeedInfo>>({});
 
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
-  // Fetch asset decimals when asset address changes
+  const handleRowChange = (index: number, field: keyof AssetRow, value: string) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  // Read the decimals the constructor checks, once per address
   useEffect(() => {
-    async function fetchDecimals() {
-      if (!formData.asset || !isAddress(formData.asset)) {
-        setAssetDecimals(null);
-        return;
+    for (const row of rows) {
+      const asset = row.asset.toLowerCase();
+      if (isAddress(asset) && !(asset in assetInfo)) {
+        setAssetInfo(prev => ({ ...prev, [asset]: 'loading' }));
+        Promise.all([
+          readContract(config, { address: asset, abi: erc20Abi, functionName: 'symbol' }),
+          readContract(config, { address: asset, abi: erc20Abi, functionName: 'decimals' }),
+        ])
+          .then(([symbol, decimals]) => setAssetInfo(prev => ({ ...prev, [asset]: { symbol, decimals } })))
+          .catch(() => setAssetInfo(prev => ({ ...prev, [asset]: 'error' })));
       }
 
-      try {
-        const decimals = await readContract(config, {
-          address: formData.asset as Address,
-          abi: erc20Abi,
-          functionName: 'decimals',
-          args: [],
-        });
-        setAssetDecimals(Number(decimals));
-      } catch (error) {
-        console.error('Error fetching decimals:', error);
-        setAssetDecimals(null);
-        toast.error('Failed to fetch token decimals. Please check the asset address.');
+      const feed = row.priceFeed.toLowerCase();
+      if (isAddress(feed) && feed !== zeroAddress && !(feed in feedInfo)) {
+        setFeedInfo(prev => ({ ...prev, [feed]: 'loading' }));
+        readContract(config, { address: feed, abi: aggregatorAbi, functionName: 'decimals' })
+          .then((decimals) => setFeedInfo(prev => ({ ...prev, [feed]: { decimals } })))
+          .catch(() => setFeedInfo(prev => ({ ...prev, [feed]: 'error' })));
       }
     }
+  }, [rows, assetInfo, feedInfo]);
 
-    fetchDecimals();
-  }, [formData.asset]);
-
-  const checkForm = () => {
-    const { asset, owner, treasury, performanceRate, vestingStart, vestingEnd, startingPrice, divestFee } = formData;
+  // Mirrors the constructor's checks, field by field, so the launch does not revert
+  const tokenErrors = () => {
+    const { name, symbol, tokenCap, tokensPerUsd } = formData;
+    const errors: Record<string, string> = {};
 
-    if (!isAddress(asset) || !isAddress(owner) || !isAddress(treasury)) {
-      toast.error('Please enter valid addresses');
-      return false;
+    if (!name.trim()) errors.name = 'Name is required';
+    if (!symbol.trim()) errors.symbol = 'Symbol is required';
+    if (!WHOLE_NUMBER.test(tokenCap) || BigInt(tokenCap) === BigInt(0)) {
+      errors.tokenCap = 'Token cap must be a whole number of tokens greater than 0';
     }
-
-    if (assetDecimals === null) {
-      toast.error('Please wait for asset decimals to be fetched, or check the asset address');
-      return false;
+    if (!WHOLE_NUMBER.test(tokensPerUsd) || BigInt(tokensPerUsd) === BigInt(0)) {
+      errors.tokensPerUsd = 'Tokens per USD must be a whole number greater than 0';
     }
 
-    if (Number(performanceRate) < 0 || Number(performanceRate) > 50) {
-      toast.error('Performance rate must be between 0 and 50');
-      return false;
+    return errors;
+  };
+
+  const rowErrors = (row: AssetRow, index: number) => {
+    const errors: Partial<Record<keyof AssetRow, string>> = {};
+    const asset = row.asset.toLowerCase();
+    const feed = row.priceFeed.toLowerCase();
+    const info = assetInfo[asset];
+    const feedDecimals = feedInfo[feed];
+
+    if (!isAddress(asset)) {
+      errors.asset = 'Enter a token address, or the zero address for ETH';
+    } else if (rows.some((other, i) => i < index && other.asset.toLowerCase() === asset)) {
+      errors.asset = 'This asset is already listed';
+    } else if (info === 'error') {
+      errors.asset = 'Not an ERC-20 token on this network';
+    } else if (typeof info === 'object' && info.decimals > MAX_ASSET_DECIMALS) {
+      errors.asset = `Assets with more than ${MAX_ASSET_DECIMALS} decimals are not supported`;
     }
 
-    if (Number(divestFee) < 0 || Number(divestFee) > 50) {
-      toast.error('Redemption fee must be between 0 and 50');
-      return false;
+    if (!isAddress(feed) || feed === zeroAddress) {
+      errors.priceFeed = 'Enter a Chainlink price feed address';
+    } else if (feedDecimals === 'error') {
+      errors.priceFeed = 'Not a Chainlink price feed on this network';
+    } else if (typeof feedDecimals === 'object' && feedDecimals.decimals > MAX_FEED_DECIMALS) {
+      errors.priceFeed = `Feeds with more than ${MAX_FEED_DECIMALS} decimals are not supported`;
     }
 
-    if (!startingPrice || Number(startingPrice) <= 0) {
-      toast.error('Starting price must be greater than 0');
-      return false;
+    if (!WHOLE_NUMBER.test(row.frequency) || Number(row.frequency) === 0 || Number(row.frequency) > MAX_FREQUENCY) {
+      errors.frequency = `Heartbeat must be between 1 second and ${MAX_FREQUENCY / 86400} days`;
     }
 
-    if (new Date(vestingStart) >= new Date(vestingEnd)) {
-      toast.error('Vesting start must be before vesting end');
-      return false;
+    return errors;
+  };
+
+  // still reading decimals for a row, so it cannot be checked yet
+  const rowPending = (row: AssetRow) => {
+    const asset = assetInfo[row.asset.toLowerCase()];
+    const feed = feedInfo[row.priceFeed.toLowerCase()];
+    return (isAddress(row.asset.toLowerCase()) && (!asset || asset === 'loading')) ||
+      (isAddress(row.priceFeed.toLowerCase()) && row.priceFeed.toLowerCase() !== zeroAddress && (!feed || feed === 'loading'));
+  };
+
+  const settingsErrors = () => {
+    const { sequencer, treasury, vestingStart, vestingEnd } = formData;
+    const errors: Record<string, string> = {};
+
+    if (sequencer && !isAddress(sequencer)) errors.sequencer = 'Enter a valid address, or leave empty on L1';
+    if (!isAddress(treasury) || treasury.toLowerCase() === zeroAddress) errors.treasury = 'Enter the treasury address';
+    if (!vestingStart) {
+      errors.vestingStart = 'Vesting start is required';
+    } else if (!startsInTime(vestingStart)) {
+      errors.vestingStart = `Vesting must start at least ${VESTING_START_MARGIN / 60} minutes from now`;
+    }
+    if (!vestingEnd) {
+      errors.vestingEnd = 'Vesting end is required';
+    } else if (vestingStart && toTimestamp(vestingEnd) < toTimestamp(vestingStart)) {
+      errors.vestingEnd = 'Vesting cannot end before it starts';
     }
 
-    return true;
-  }
+    return errors;
+  };
+
+  const errorsByStep = [
+    tokenErrors(),
+    Object.assign({}, ...rows.map((row, i) => rowErrors(row, i))),
+    settingsErrors(),
+    {},
+  ];
+  const stepValid = (index: number) =>
+    Object.keys(errorsByStep[index]).length === 0 && (index !== 1 || (rows.length > 0 && !rows.some(rowPending)));
+  const canLaunch = [0, 1, 2].every(stepValid);
+
+  const goToStep = (index: number) => {
+    setAttempted(false);
+    setStep(index);
+  };
+
+  const handleNext = () => {
+    if (!stepValid(step)) {
+      setAttempted(true);
+      toast.error(step === 1 && rows.some(rowPending) ? 'Still checking the assets and feeds' : 'Please fix the highlighted fields');
+      return;
+    }
+    goToStep(step + 1);
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    // Enter in a field moves on to the next step
+    if (step < STEPS.length - 1) {
+      handleNext();
+      return;
+    }
+
     if (!isConnected) {
       toast.error('Please connect your wallet');
       return;
     }
 
-    setLoading(true);
-    try {
-      // Note: You'll need to set the factory contract address
-      const factoryAddress = process.env.NEXT_PUBLIC_VAULT_FACTORY_ADDRESS as `0x${string}`;
-
-      if (!factoryAddress) {
-        toast.error('Factory contract address not configured');
-        setLoading(false);
-        return;
-      }
+    if (!FACTORY_ADDRESS) {
+      toast.error('Factory contract address not configured');
+      return;
+    }
 
-      if (!checkForm()) {
-        setLoading(false);
-        return;
-      }
+    if (!canLaunch) {
+      toast.error('Please review the launch settings');
+      return;
+    }
 
-      if (assetDecimals === null) {
-        toast.error('Asset decimals not available. Please check the asset address.');
-        setLoading(false);
-        return;
-      }
+    // the review step may have stayed open past the start time
+    if (!startsInTime(formData.vestingStart)) {
+      toast.error(`Vesting must start at least ${VESTING_START_MARGIN / 60} minutes from now`);
+      goToStep(2);
+      return;
+    }
 
+    setLoading(true);
+    try {
       const hash = await writeContract(config, {
-        address: factoryAddress,
-        abi: VaultFactoryABI,
-        functionName: 'createFlyingICO',
+        ...factory(FACTORY_ADDRESS),
+        functionName: 'createFlyingIco',
         args: [
-          formData.asset as `0x${string}`,
-          formData.name,
-          formData.symbol,
-          formData.owner as `0x${string}`,
-          formData.treasury as `0x${string}`,
-          parseUnits(formData.performanceRate, 2),
-          BigInt(Math.floor(new Date(formData.vestingStart).getTime() / 1000)),
-          BigInt(Math.floor(new Date(formData.vestingEnd).getTime() / 1000)),
-          parseUnits(formData.startingPrice, assetDecimals),
-          parseUnits(formData.divestFee, 2),
+          formData.name.trim(),
+          formData.symbol.trim(),
+          BigInt(formData.tokenCap),
+          BigInt(formData.tokensPerUsd),
+          rows.map((row) => row.asset.toLowerCase() as Address),
+          rows.map((row) => row.priceFeed.toLowerCase() as Address),
+          rows.map((row) => BigInt(row.frequency)),
+          (formData.sequencer || zeroAddress) as Address,
+          formData.treasury as Address,
+          BigInt(toTimestamp(formData.vestingStart)),
+          BigInt(toTimestamp(formData.vestingEnd)),
         ],
       });
 
-      await waitForTransactionReceipt(config, { hash });
-      router.push('/vaults');
+      const receipt = await waitForTransactionReceipt(config, { hash });
+      const [created] = parseEventLogs({ abi: factoryAbi, eventName: 'Factory__FlyingIcoCreated', logs: receipt.logs });
+      toast.success('Vault launched!');
+      router.push(created ? `/vaults/${created.args.flyingIco}` : '/vaults');
     } catch (error) {
       console.error('Error creating vault:', error);
-      alert('Failed to create vault. Please check the console for details.');
+      toast.error('Failed to create vault. Please check the console for details.');
     } finally {
       setLoading(false);
     }
@@ -163,6 +286,44 @@ export default function NewVaultPage() {
     );
   }
 
+  const errors: Record<string, string> = errorsByStep[step];
+  const tokensPerUsd = WHOLE_NUMBER.test(formData.tokensPerUsd) ? Number(formData.tokensPerUsd) : 0;
+  const tokenCap = WHOLE_NUMBER.test(formData.tokenCap) ? Number(formData.tokenCap) : 0;
+  const vestingDuration = formData.vestingStart && formData.vestingEnd
+    ? toTimestamp(formData.vestingEnd) - toTimestamp(formData.vestingStart)
+    : 0;
+
+  const field = (key: keyof typeof formData, label: string, placeholder: string, hint: string, type = 'text') => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        {label}
+      </label>
+      <input
+        type={type}
+        value={formData[key]}
+        onChange={(e) => handleInputChange(key, e.target.value)}
+        className={INPUT_CLASS}
+        placeholder={placeholder}
+      />
+      {(formData[key] || attempted) && errors[key] ? (
+        <p className="mt-1 text-xs text-red-600 dark:text-red-400">{errors[key]}</p>
+      ) : (
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{hint}</p>
+      )}
+    </div>
+  );
+
+  const summary: [string, string][] = [
+    ['Token', `${formData.name} (${formData.symbol})`],
+    ['Token Cap', `${tokenCap.toLocaleString()} ${formData.symbol}`],
+    ['Tokens per USD', tokensPerUsd.toLocaleString()],
+    ['Treasury', formData.treasury ? formatAddress(formData.treasury) : '-'],
+    ['Sequencer', formData.sequencer ? formatAddress(formData.sequencer) : 'None (L1)'],
+    ['Vesting Start', formData.vestingStart ? new Date(formData.vestingStart).toLocaleString() : '-'],
+    ['Vesting End', formData.vestingEnd ? new Date(formData.vestingEnd).toLocaleString() : '-'],
+    ['Vesting Duration', formatDuration(vestingDuration)],
+  ];
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-dark-primary dark:to-black">
       <main className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -171,184 +332,221 @@ export default function NewVaultPage() {
         </Link>
 
         <div className="bg-white dark:bg-dark-primary rounded-2xl shadow-lg p-8">
-          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-8">Launch New Flying Vault</h1>
-
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Asset Address
-              </label>
-              <input
-                type="text"
-                required
-                value={formData.asset}
-                onChange={(e) => handleInputChange('asset', e.target.value)}
-                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                placeholder="0x..."
-              />
-              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">ERC-20 token that will be launched in the ICO (e.g. USDC, WETH).</p>
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Name
-              </label>
-              <input
-                type="text"
-                required
-                value={formData.name}
-                onChange={(e) => handleInputChange('name', e.target.value)}
-                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                placeholder="My ICO"
-              />
-              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Human-readable name for the ICO. This will also be the ERC-20 name of the ICO token.</p>
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Symbol
-              </label>
-              <input
-                type="text"
-                required
-                value={formData.symbol}
-                onChange={(e) => handleInputChange('symbol', e.target.value)}
-                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                placeholder="MVLT"
-              />
-              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Short ticker symbol for the ICO token (e.g. vUSDC).</p>
-            </div>
-
-            <div className="grid md:grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Owner Address
-                </label>
-                <input
-                  type="text"
-                  required
-                  value={formData.owner}
-                  onChange={(e) => handleInputChange('owner', e.target.value)}
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                  placeholder="0x..."
-                />
-                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Address with admin permissions for the vault.</p>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Treasury Address
-                </label>
-                <input
-                  type="text"
-                  required
-                  value={formData.treasury}
-                  onChange={(e) => handleInputChange('treasury', e.target.value)}
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                  placeholder="0x..."
-                />
-                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Address that will receive performance fees generated by the vault.</p>
-              </div>
-            </div>
-
-            <div className="grid md:grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Performance Rate
-                </label>
-                <input
-                  type="text"
-                  required
-                  value={formData.performanceRate}
-                  onChange={(e) => handleInputChange('performanceRate', e.target.value)}
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                  placeholder="10"
-                />
-                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Performance fee rate (e.g., 10 for 10%)</p>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Redemption Fee
-                </label>
-                <input
-                  type="text"
-                  required
-                  value={formData.divestFee}
-                  onChange={(e) => handleInputChange('divestFee', e.target.value)}
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                  placeholder="5"
-                />
-                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Redemption fee rate (e.g., 5 for 5%)</p>
-              </div>
-            </div>
-
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Starting Price
-                {assetDecimals !== null && (
-                  <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">
-                    (Decimals: {assetDecimals})
-                  </span>
-                )}
-              </label>
-              <input
-                type="text"
-                required
-                value={formData.startingPrice}
-                onChange={(e) => handleInputChange('startingPrice', e.target.value)}
-                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                placeholder="1.0"
-              />
-              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-                Initial price per share. Will be parsed with {assetDecimals !== null ? assetDecimals : 'asset'} decimals.
-                {assetDecimals === null && formData.asset && isAddress(formData.asset) && (
-                  <span className="text-yellow-600 dark:text-yellow-400"> Fetching decimals...</span>
-                )}
-              </p>
-            </div>
-
-            <div className="grid md:grid-cols-2 gap-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Vesting Start
-                </label>
-                <input
-                  type="datetime-local"
-                  required
-                  value={formData.vestingStart}
-                  onChange={(e) => handleInputChange('vestingStart', e.target.value)}
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                />
-                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Timestamp when vesting begins. Before this date, shares become redeemable gradually over time.</p>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white mb-6">Launch New Flying Vault</h1>
+
+          {/* Steps */}
+          <div className="flex items-center justify-between mb-8">
+            {STEPS.map((label, index) => (
+              <div key={label} className="flex flex-1 items-center">
+                <button
+                  type="button"
+                  onClick={() => index < step && goToStep(index)}
+                  className={`flex-1 text-center py-2 rounded-lg transition-colors ${index === step ? 'bg-primary/20 text-primary' : 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-400'} ${index < step ? 'cursor-pointer' : 'cursor-default'}`}
+                >
+                  <span className="font-medium">{index + 1}. {label}</span>
+                </button>
+                {index < STEPS.length - 1 && <div className="w-4 h-0.5 bg-gray-300 dark:bg-gray-600"></div>}
               </div>
+            ))}
+          </div>
 
-              <div>
-                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                  Vesting End
-                </label>
-                <input
-                  type="datetime-local"
-                  required
-                  value={formData.vestingEnd}
-                  onChange={(e) => handleInputChange('vestingEnd', e.target.value)}
-                  className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                />
-                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Timestamp when vesting is fully completed.</p>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {step === 0 && (
+              <>
+                {field('name', 'Name', 'My ICO', 'Human-readable name for the ICO. This will also be the ERC-20 name of the ICO token.')}
+                {field('symbol', 'Symbol', 'MICO', 'Short ticker symbol for the ICO token.')}
+                <div className="grid md:grid-cols-2 gap-4">
+                  {field('tokenCap', 'Token Cap', '1000000', 'Maximum number of tokens the ICO can ever mint, in whole tokens.')}
+                  {field('tokensPerUsd', 'Tokens per USD', '10', 'Tokens minted for every $1 deposited.')}
+                </div>
+              </>
+            )}
+
+            {step === 1 && (
+              <>
+                {rows.map((row, index) => {
+                  const rowError = rowErrors(row, index);
+                  const info = assetInfo[row.asset.toLowerCase()];
+                  const feed = feedInfo[row.priceFeed.toLowerCase()];
+                  const hint = (key: keyof AssetRow, text: string) =>
+                    (row[key] || attempted) && rowError[key] ? (
+                      <p className="mt-1 text-xs text-red-600 dark:text-red-400">{rowError[key]}</p>
+                    ) : (
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{text}</p>
+                    );
+
+                  return (
+                    <div key={index} className="p-4 border-2 border-gray-200 dark:border-gray-700 rounded-xl space-y-4">
+                      <div className="flex items-center justify-between">
+                        <h3 className="font-semibold text-gray-900 dark:text-white">
+                          Accepted Asset {index + 1}
+                          {typeof info === 'object' && (
+                            <span className="ml-2 text-sm text-gray-500 dark:text-gray-400">
+                              {info.symbol} ({info.decimals} decimals)
+                            </span>
+                          )}
+                        </h3>
+                        {rows.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                            className="text-sm text-gray-400 hover:text-red-500 cursor-pointer"
+                          >
+                            Remove
+                          </button>
+                        )}
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                          Asset Address
+                        </label>
+                        <input
+                          type="text"
+                          value={row.asset}
+                          onChange={(e) => handleRowChange(index, 'asset', e.target.value)}
+                          className={INPUT_CLASS}
+                          placeholder="0x..."
+                        />
+                        {hint('asset', `ERC-20 token accepted for deposits, or ${zeroAddress} for ETH.`)}
+                      </div>
+
+                      <div className="grid md:grid-cols-2 gap-4">
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                            Chainlink Price Feed
+                            {typeof feed === 'object' && (
+                              <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">({feed.decimals} decimals)</span>
+                            )}
+                          </label>
+                          <input
+                            type="text"
+                            value={row.priceFeed}
+                            onChange={(e) => handleRowChange(index, 'priceFeed', e.target.value)}
+                            className={INPUT_CLASS}
+                            placeholder="0x..."
+                          />
+                          {hint('priceFeed', 'USD feed pricing the asset.')}
+                        </div>
+
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                            Heartbeat (seconds)
+                          </label>
+                          <input
+                            type="text"
+                            value={row.frequency}
+                            onChange={(e) => handleRowChange(index, 'frequency', e.target.value)}
+                            className={INPUT_CLASS}
+                            placeholder="3600"
+                          />
+                          {hint('frequency', 'Answers older than this are stale and deposits revert. At most 30 days.')}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+
+                <button
+                  type="button"
+                  onClick={() => setRows(prev => [...prev, EMPTY_ROW])}
+                  className="w-full px-4 py-2 border-2 border-dashed border-gray-300 dark:border-gray-600 text-gray-600 dark:text-gray-300 rounded-lg hover:border-primary hover:text-primary transition-colors cursor-pointer"
+                >
+                  + Add Asset
+                </button>
+              </>
+            )}
+
+            {step === 2 && (
+              <>
+                <div className="grid md:grid-cols-2 gap-4">
+                  {field('treasury', 'Treasury Address', '0x...', 'Address that receives the assets taken out of the ICO.')}
+                  {field('sequencer', 'Sequencer Uptime Feed', '0x... (optional)', 'Chainlink L2 sequencer uptime feed. Leave empty on L1.')}
+                </div>
+                <div className="grid md:grid-cols-2 gap-4">
+                  {field('vestingStart', 'Vesting Start', '', 'Until vesting starts, every token is redeemable for its deposit.', 'datetime-local')}
+                  {field('vestingEnd', 'Vesting End', '', 'Redeemable tokens decrease linearly until vesting ends, then stay locked.', 'datetime-local')}
+                </div>
+              </>
+            )}
+
+            {step === 3 && (
+              <div className="space-y-6">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4">
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">USD Hard Cap</p>
+                    <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                      {tokensPerUsd > 0 ? formatUsd(tokenCap / tokensPerUsd) : '-'}
+                    </p>
+                  </div>
+                  <div className="bg-gray-50 dark:bg-gray-800 rounded-xl p-4">
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mb-1">Implied Token Price</p>
+                    <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                      {tokensPerUsd > 0 ? formatUsd(1 / tokensPerUsd) : '-'}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="space-y-2 text-sm">
+                  {summary.map(([label, value]) => (
+                    <div key={label} className="flex justify-between">
+                      <span className="text-gray-600 dark:text-gray-300">{label}:</span>
+                      <span className="font-semibold text-gray-900 dark:text-white">{value}</span>
+                    </div>
+                  ))}
+                </div>
+
+                <div className="space-y-2 text-sm pt-4 border-t border-gray-200 dark:border-gray-700">
+                  <p className="font-medium text-gray-700 dark:text-gray-300">Accepted Assets</p>
+                  {rows.map((row) => {
+                    const info = assetInfo[row.asset.toLowerCase()];
+                    return (
+                      <div key={row.asset} className="flex justify-between">
+                        <span className="text-gray-900 dark:text-white">
+                          {typeof info === 'object' ? info.symbol : formatAddress(row.asset)}
+                        </span>
+                        <span className="text-gray-500 dark:text-gray-400">
+                          feed {formatAddress(row.priceFeed)}, heartbeat {formatDuration(Number(row.frequency))}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
               </div>
+            )}
+
+            <div className="flex gap-3">
+              {step > 0 && (
+                <button
+                  type="button"
+                  onClick={() => goToStep(step - 1)}
+                  disabled={loading}
+                  className="px-6 py-3 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded-lg font-medium transition-colors cursor-pointer"
+                >
+                  Back
+                </button>
+              )}
+              {step < STEPS.length - 1 ? (
+                <button
+                  type="button"
+                  onClick={handleNext}
+                  className="flex-1 px-6 py-3 bg-primary/20 border hover:bg-primary/40 text-primary font-semibold rounded-lg font-medium transition-colors cursor-pointer"
+                >
+                  Next
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={loading || !canLaunch}
+                  className="flex-1 px-6 py-3 bg-primary/20 border hover:bg-primary/40 text-primary font-semibold rounded-lg font-medium transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {loading ? 'Creating Vault...' : 'Launch Vault'}
+                </button>
+              )}
             </div>
-
-            <button
-              type="submit"
-              disabled={loading}
-              className="w-full px-6 py-3 bg-primary/20 border hover:bg-primary/40 text-primary font-semibold rounded-lg font-medium transition-colors cursor-pointer"
-            >
-              {loading ? 'Creating Vault...' : 'Launch Vault'}
-            </button>
           </form>
         </div>
       </main>
     </div>
   );
 }
-
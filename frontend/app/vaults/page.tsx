@@ -3,45 +3,62 @@
 import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
-import { graphqlClient, GET_STAK_VAULTS } from '@/lib/graphql';
+import {
+  graphqlClient,
+  GET_FLYING_ICOS,
+  SEARCH_FLYING_ICOS,
+  toSearchText,
+  type GetFlyingICOsResult,
+  type ICOSummary,
+  type SearchFlyingICOsResult,
+} from '@/lib/graphql';
 import { formatNumber, formatAddress, EXCLUDED_VAULT_ADDRESSES } from '../utils/helper';
 import { getTokenPicture } from '../utils/logos';
 
-interface FlyingICO {
-  id: string;
-  asset: string;
-  name: string;
-  symbol: string;
-  decimals: string;
-  totalAssets: string;
-  totalSupply: string;
-  investedAssets: string;
-  redeemsAtNavEnabled: boolean;
-  totalPerformanceFees: string;
-  positionCount: string;
-}
+const PHASE_LABELS: Record<ICOSummary['phase'], string> = {
+  PRE_VESTING: 'Fully Redeemable',
+  VESTING: 'Vesting',
+  LOCKED: 'Locked',
+};
+
+const formatUsd = (value: string) =>
+  parseFloat(value).toLocaleString(undefined, { style: 'currency', currency: 'USD', maximumFractionDigits: 0 });
 
 export default function VaultsPage() {
-  const [vaults, setVaults] = useState<FlyingVault[]>([]);
+  const [vaults, setVaults] = useState<ICOSummary[]>([]);
   const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
 
   useEffect(() => {
+    const text = toSearchText(search);
+    // a slower response for an earlier search must not replace the results
+    let cancelled = false;
+
     async function fetchVaults() {
+      setLoading(true);
       try {
-        const data = await graphqlClient.request<{ flyingVaults: FlyingVault[] }>(GET_FLYING_VAULTS);
+        const found = text
+          ? (await graphqlClient.request<SearchFlyingICOsResult>(SEARCH_FLYING_ICOS, { text })).icoSearch
+          : (await graphqlClient.request<GetFlyingICOsResult>(GET_FLYING_ICOS)).flyingICOs;
         // Filter out excluded Vault addresses
-        const filteredVaults = data.flyingVaults.filter(
+        const filteredVaults = found.filter(
           (vault) => !EXCLUDED_VAULT_ADDRESSES.includes(vault.id.toLowerCase())
         );
-        setVaults(filteredVaults);
+        if (!cancelled) setVaults(filteredVaults);
       } catch (error) {
         console.error('Error fetching vaults:', error);
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     }
-    fetchVaults();
-  }, []);
+
+    // wait for the user to stop typing before searching
+    const timeout = setTimeout(fetchVaults, text ? 300 : 0);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [search]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-dark-primary dark:to-black">
@@ -58,6 +75,14 @@ export default function VaultsPage() {
           </Link>
         </div>
 
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by name, symbol, creator or accepted asset"
+          className="w-full mb-8 px-4 py-3 bg-white dark:bg-dark-primary border-2 border-gray-200 dark:border-gray-700 focus:border-primary rounded-lg text-gray-900 dark:text-white placeholder-gray-400 outline-none transition-colors"
+        />
+
         {loading ? (
           <div className="text-center py-12">
             <div className="inline-block animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
@@ -65,12 +90,14 @@ export default function VaultsPage() {
           </div>
         ) : vaults.length === 0 ? (
           <div className="text-center py-12 bg-white dark:bg-dark-primary rounded-2xl shadow-lg">
-            <p className="text-gray-600 font-medium dark:text-gray-200 text-lg">No Vaults found</p>
+            <p className="text-gray-600 font-medium dark:text-gray-200 text-lg">
+              {search ? `No Vaults match "${search}"` : 'No Vaults found'}
+            </p>
           </div>
         ) : (
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
             {vaults.map((vault) => {
-              const total = formatNumber(vault.totalAssets, vault.decimals) + formatNumber(vault.investedAssets, vault.decimals);
+              const asset = vault.acceptedAssets[0];
               return (
                 <Link key={vault.id} href={`/vaults/${vault.id}`}>
                   <div className="bg-white dark:bg-dark-primary rounded-xl p-6 shadow-lg hover:shadow-2xl transition-all border-2 border-gray-200 dark:border-gray-700 hover:border-primary">
@@ -81,7 +108,7 @@ export default function VaultsPage() {
                       </div>
                       <div className="w-8 h-8 rounded-lg flex items-center justify-center">
                         <Image
-                          src={getTokenPicture('sepolia', vault.asset)}
+                          src={asset ? getTokenPicture('sepolia', asset.address) : '/icons/logo.png'}
                           alt={vault.symbol}
                           width={32}
                           height={32}
@@ -92,12 +119,12 @@ export default function VaultsPage() {
 
                     <div className="space-y-2 text-sm">
                       <div className="flex justify-between">
-                        <span className="text-gray-600 dark:text-gray-300">Total Assets:</span>
-                        <span className="font-semibold text-gray-900 dark:text-white">{total}</span>
+                        <span className="text-gray-600 dark:text-gray-300">TVL:</span>
+                        <span className="font-semibold text-gray-900 dark:text-white">{formatUsd(vault.tvlUsd)}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-600 dark:text-gray-300">Total Supply:</span>
-                        <span className="font-semibold text-gray-900 dark:text-white">{formatNumber(vault.totalSupply, vault.decimals)}</span>
+                        <span className="font-semibold text-gray-900 dark:text-white">{formatNumber(vault.totalSupply).toFixed(2)}</span>
                       </div>
                       <div className="flex justify-between">
                         <span className="text-gray-600 dark:text-gray-300">Positions:</span>
@@ -107,11 +134,9 @@ export default function VaultsPage() {
                         <span className="text-sm text-gray-500 dark:text-gray-400">
                           {formatAddress(vault.id)}
                         </span>
-                        {vault.redeemsAtNavEnabled && (
-                          <span className="px-2 py-1 bg-green-100 dark:bg-primary text-green-800 dark:text-black text-xs rounded">
-                            NAV Enabled
-                          </span>
-                        )}
+                        <span className="px-2 py-1 bg-green-100 dark:bg-primary text-green-800 dark:text-black text-xs rounded">
+                          {PHASE_LABELS[vault.phase]}
+                        </span>
                       </div>
                     </div>
                   </div>
@@ -1,47 +1,115 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Image from 'next/image';
 import { useAccount, useChainId } from 'wagmi';
-import { readContract, writeContract, waitForTransactionReceipt } from '@wagmi/core';
+import {
+  getBalance,
+  getCapabilities,
+  readContract,
+  writeContract,
+  sendCalls,
+  sendTransaction,
+  waitForCallsStatus,
+  waitForTransactionReceipt,
+} from '@wagmi/core';
 import { config } from '@/lib/wagmi';
-import { parseUnits, formatUnits, erc20Abi, type Address } from 'viem';
-import FlyingICOABI from '@/app/abis/FlyingICO.json';
+import { parseUnits, formatUnits, erc20Abi, encodeFunctionData, maxUint256, type Address, type Hex, type TypedDataDomain } from 'viem';
+import { ETH_ADDRESS, aggregatorAbi, flyingIco, flyingIcoAbi, previewDeposit, type DepositPreview } from '@/lib/contracts';
+import type { ICODetail } from '@/lib/graphql';
+import { getPermitDomain, signPermit } from '@/lib/permit';
 import { formatNumber } from '@/app/utils/helper';
 import { chainByID } from '@/app/utils/chains';
+import { getTokenPicture } from '@/app/utils/logos';
+import { getUnlimitedApproval, storeUnlimitedApproval } from '@/app/utils/approval';
+import { getStoredReferralCode, withReferralSuffix } from '@/app/utils/referral';
 import toast from 'react-hot-toast';
 
+type DepositAsset = ICODetail['acceptedAssets'][number];
+
+// how a deposit gets past the ERC20 allowance: already covered, a signed
+// EIP-2612 permit, approve and deposit batched through `wallet_sendCalls`
+// (EIP-5792), or a separate approval transaction first
+type DepositRoute = 'direct' | 'permit' | 'batch' | 'approve';
+
+// permits are signed right before the deposit, so a short validity is enough
+const PERMIT_TTL = 30 * 60;
+
+// latest answer of the selected asset's feed, read in the browser
+interface FeedAnswer {
+  price: bigint;
+  updatedAt: bigint;
+}
+
+const PREVIEW_WARNINGS: Record<NonNullable<DepositPreview['error']>, string> = {
+  FlyingICO__ZeroUsdValue: 'This amount is worth $0 at the current price.',
+  FlyingICO__ZeroTokenAmount: 'This amount would mint no tokens.',
+  FlyingICO__DepositTooSmall: 'Deposits must mint at least 1 token.',
+  FlyingICO__TokensCapExceeded: 'This deposit would exceed the token cap.',
+};
+
 interface DepositModalProps {
   isOpen: boolean;
   onClose: () => void;
   vaultAddress: Address;
-  assetAddress: Address;
-  assetDecimals: string;
-  assetSymbol: string;
+  vaultSymbol: string;
+  acceptedAssets: DepositAsset[];
+  tokensPerUsd: string; // whole tokens per $1
+  tokenCapAmount: string; // in token units
 }
 
 export function DepositModal({
   isOpen,
   onClose,
   vaultAddress,
-  assetAddress,
-  assetDecimals,
-  assetSymbol,
+  vaultSymbol,
+  acceptedAssets,
+  tokensPerUsd,
+  tokenCapAmount,
 }: DepositModalProps) {
   const { address: userAddress, isConnected } = useAccount();
   const chainId = useChainId();
   const chain = chainByID(chainId);
+  const [assetAddress, setAssetAddress] = useState<Address>(acceptedAssets[0].address as Address);
   const [depositAmount, setDepositAmount] = useState('');
-  const [walletBalance, setWalletBalance] = useState<bigint>(BigInt(0));
+  const [balances, setBalances] = useState<Record<string, bigint>>({});
   const [allowance, setAllowance] = useState<bigint>(BigInt(0));
-  const [symbol, setSymbol] = useState('');
+  const [totalSupply, setTotalSupply] = useState<bigint>(BigInt(0));
+  const [answer, setAnswer] = useState<FeedAnswer | null>(null);
   const [isApproving, setIsApproving] = useState(false);
   const [isDepositing, setIsDepositing] = useState(false);
   const [step, setStep] = useState<'approve' | 'deposit'>('approve');
   const [txStatus, setTxStatus] = useState<string>('');
   const [txHash, setTxHash] = useState<string>('');
-  const [previewShares, setPreviewShares] = useState<bigint>(BigInt(0));
+  const [referralCode, setReferralCode] = useState<string | null>(null);
+  const [permitDomain, setPermitDomain] = useState<TypedDataDomain | null>(null);
+  const [canBatch, setCanBatch] = useState(false);
+  const [unlimitedApproval, setUnlimitedApproval] = useState(false);
+
+  const asset = acceptedAssets.find((accepted) => accepted.address.toLowerCase() === assetAddress.toLowerCase()) ?? acceptedAssets[0];
+  const assetDecimals = asset.decimals;
+  const isEther = assetAddress.toLowerCase() === ETH_ADDRESS;
+  const walletBalance = balances[assetAddress.toLowerCase()] ?? BigInt(0);
 
-  // Load wallet balance and allowance
+  useEffect(() => {
+    if (!isOpen) return;
+    setReferralCode(getStoredReferralCode());
+    setUnlimitedApproval(getUnlimitedApproval());
+  }, [isOpen]);
+
+  // Check whether the wallet can send approve and deposit as one atomic batch
+  useEffect(() => {
+    if (!isOpen || !userAddress || !isConnected) return;
+
+    getCapabilities(config, { chainId })
+      .then((capabilities) => {
+        const status = capabilities.atomic?.status;
+        setCanBatch(status === 'supported' || status === 'ready');
+      })
+      .catch(() => setCanBatch(false));
+  }, [isOpen, userAddress, isConnected, chainId]);
+
+  // Load wallet balances of every accepted asset and the ICO's supply
   useEffect(() => {
     if (!isOpen || !userAddress || !isConnected) return;
 
@@ -49,78 +117,115 @@ export function DepositModal({
       try {
         if (!userAddress) return;
 
-        // Get wallet balance
-        const balance = await readContract(config, {
-          address: assetAddress,
-          abi: erc20Abi,
-          functionName: 'balanceOf',
-          args: [userAddress],
+        const amounts = await Promise.all(
+          acceptedAssets.map(({ address }) =>
+            address.toLowerCase() === ETH_ADDRESS
+              ? getBalance(config, { address: userAddress }).then(({ value }) => value)
+              : readContract(config, {
+                  address: address as Address,
+                  abi: erc20Abi,
+                  functionName: 'balanceOf',
+                  args: [userAddress],
+                })
+          )
+        );
+        setBalances(Object.fromEntries(acceptedAssets.map(({ address }, i) => [address.toLowerCase(), amounts[i]])));
+
+        const supply = await readContract(config, {
+          ...flyingIco(vaultAddress),
+          functionName: 'totalSupply',
         });
-        setWalletBalance(balance as bigint);
+        setTotalSupply(supply);
+      } catch (error) {
+        console.error('Error loading balances:', error);
+      }
+    }
+
+    loadData();
+  }, [isOpen, userAddress, isConnected, acceptedAssets, vaultAddress]);
+
+  // Load the selected asset's allowance and latest feed answer, dropping the
+  // reads of an asset the user has since switched away from
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+
+    setAnswer(null);
+    setAllowance(BigInt(0));
+    setPermitDomain(null);
+
+    async function loadAsset() {
+      try {
+        if (asset.priceFeed) {
+          const [, price, , updatedAt] = await readContract(config, {
+            address: asset.priceFeed.address as Address,
+            abi: aggregatorAbi,
+            functionName: 'latestRoundData',
+          });
+          if (!cancelled) setAnswer({ price, updatedAt });
+        }
+
+        if (!userAddress || isEther) return;
+
+        const domain = await getPermitDomain(assetAddress, chainId);
+        if (!cancelled) setPermitDomain(domain);
 
-        // Get allowance
         const currentAllowance = await readContract(config, {
           address: assetAddress,
           abi: erc20Abi,
           functionName: 'allowance',
           args: [userAddress, vaultAddress],
         });
-        setAllowance(currentAllowance as bigint);
-
-        // Get symbol
-        const assetSymbol = await readContract(config, {
-          address: assetAddress,
-          abi: erc20Abi,
-          functionName: 'symbol',
-          args: [],
-        });
-        setSymbol(assetSymbol);
+        if (!cancelled) setAllowance(currentAllowance);
       } catch (error) {
-        console.error('Error loading balance/allowance:', error);
+        console.error('Error loading price/allowance:', error);
       }
     }
 
-    loadData();
-  }, [isOpen, userAddress, isConnected, assetAddress, vaultAddress]);
+    loadAsset();
 
-  // Check if approval is needed and calculate preview shares
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, userAddress, asset.priceFeed, assetAddress, isEther, vaultAddress, chainId]);
+
+  // Check if approval is needed
   useEffect(() => {
+    if (isEther) {
+      setStep('deposit');
+      return;
+    }
+
     if (!depositAmount) {
       setStep('approve');
-      setPreviewShares(BigInt(0));
       return;
     }
 
     try {
       const amountBN = parseUnits(depositAmount, Number(assetDecimals));
-      if (allowance >= amountBN) {
-        setStep('deposit');
-      } else {
-        setStep('approve');
-      }
-
-      // Calculate preview shares
-      async function calculatePreviewShares() {
-        try {
-          const shares = await readContract(config, {
-            address: vaultAddress,
-            abi: FlyingICOABI,
-            functionName: 'previewDeposit',
-            args: [amountBN],
-          });
-          setPreviewShares(shares as bigint);
-        } catch (error) {
-          console.error('Error calculating preview shares:', error);
-          setPreviewShares(BigInt(0));
-        }
-      }
-
-      calculatePreviewShares();
-    } catch (error) {
+      setStep(allowance >= amountBN ? 'deposit' : 'approve');
+    } catch {
       setStep('approve');
-      setPreviewShares(BigInt(0));
     }
-  }, [depositAmount, allowance, assetDecimals, vaultAddress]);
+  }, [depositAmount, allowance, assetDecimals, isEther]);
+
+  const handleSelectAsset = (address: Address) => {
+    setAssetAddress(address);
+    setDepositAmount('');
+  };
+
+  const handleUnlimitedApproval = (unlimited: boolean) => {
+    setUnlimitedApproval(unlimited);
+    storeUnlimitedApproval(unlimited);
+  };
+
+  const approvalData = (amountBN: bigint) =>
+    encodeFunctionData({
+      abi: erc20Abi,
+      functionName: 'approve',
+      args: [vaultAddress, unlimitedApproval ? maxUint256 : amountBN],
+    });
 
   const handleApprove = async () => {
     if (!userAddress || !depositAmount) return;
@@ -128,24 +233,24 @@ export function DepositModal({
     setIsApproving(true);
     setTxStatus('Waiting for wallet confirmation...');
     setTxHash('');
-    
+
     try {
       const amountBN = parseUnits(depositAmount, Number(assetDecimals));
-      
+
       toast.loading('Please confirm the approval transaction in your wallet', { id: 'approve' });
-      
+
       const hash = await writeContract(config, {
         address: assetAddress,
         abi: erc20Abi,
         functionName: 'approve',
-        args: [vaultAddress, amountBN],
+        args: [vaultAddress, unlimitedApproval ? maxUint256 : amountBN],
       });
 
       setTxHash(hash);
       setTxStatus('Transaction submitted. Waiting for confirmation...');
       toast.loading('Transaction submitted. Waiting for confirmation...', { id: 'approve' });
 
-      const receipt = await waitForTransactionReceipt(config, { hash });
+      await waitForTransactionReceipt(config, { hash });
 
       setTxStatus('Transaction confirmed!');
       toast.success('Approval successful!', { id: 'approve' });
@@ -157,13 +262,13 @@ export function DepositModal({
         functionName: 'allowance',
         args: [userAddress, vaultAddress],
       });
-      setAllowance(newAllowance as bigint);
+      setAllowance(newAllowance);
       setStep('deposit');
       setTxStatus('');
       setTxHash('');
     } catch (error: any) {
       console.error('Approval error:', error);
-      const errorMessage = error?.message?.includes('User rejected') 
+      const errorMessage = error?.message?.includes('User rejected')
         ? 'Approval cancelled'
         : 'Approval failed. Please try again.';
       toast.error(errorMessage, { id: 'approve' });
@@ -180,24 +285,68 @@ export function DepositModal({
     setIsDepositing(true);
     setTxStatus('Waiting for wallet confirmation...');
     setTxHash('');
-    
+
     try {
       const amountBN = parseUnits(depositAmount, Number(assetDecimals));
 
+      const route = depositRoute(amountBN);
+      let data: Hex;
+
+      // sent as raw calldata so the referral suffix, if any, can be appended;
+      // ETH goes through depositEther as msg.value
+      if (isEther) {
+        data = encodeFunctionData({ abi: flyingIcoAbi, functionName: 'depositEther' });
+      } else if (route === 'permit' && permitDomain) {
+        toast.loading('Please sign the permit in your wallet', { id: 'deposit' });
+        const deadline = BigInt(Math.floor(Date.now() / 1000) + PERMIT_TTL);
+        const { v, r, s } = await signPermit({
+          domain: permitDomain,
+          owner: userAddress,
+          spender: vaultAddress,
+          value: amountBN,
+          deadline,
+        });
+        data = encodeFunctionData({
+          abi: flyingIcoAbi,
+          functionName: 'depositERC20WithPermit',
+          args: [assetAddress, amountBN, deadline, v, r, s],
+        });
+      } else {
+        data = encodeFunctionData({ abi: flyingIcoAbi, functionName: 'depositERC20', args: [assetAddress, amountBN] });
+      }
+
       toast.loading('Please confirm the deposit transaction in your wallet', { id: 'deposit' });
 
-      const hash = await writeContract(config, {
-        address: vaultAddress,
-        abi: FlyingICOABI,
-        functionName: 'deposit',
-        args: [amountBN, userAddress],
-      });
+      let hash: Hex;
+      if (route === 'batch') {
+        // never taken with a referral code: the wallet's batch executor sends
+        // the transaction, so the suffix would not end its calldata
+        const { id } = await sendCalls(config, {
+          calls: [
+            { to: assetAddress, data: approvalData(amountBN) },
+            { to: vaultAddress, data },
+          ],
+          forceAtomic: true,
+        });
+
+        setTxStatus('Batch submitted. Waiting for confirmation...');
+        const { status, receipts } = await waitForCallsStatus(config, { id });
+        const receipt = receipts?.[receipts.length - 1];
+        if (status !== 'success' || !receipt) throw new Error(`Batch ${id} ${status}`);
+        hash = receipt.transactionHash;
+      } else {
+        hash = await sendTransaction(config, {
+          to: vaultAddress,
+          data: withReferralSuffix(data, referralCode),
+          value: isEther ? amountBN : undefined,
+        });
+      }
 
       setTxHash(hash);
       setTxStatus('Transaction submitted. Waiting for confirmation...');
       toast.loading('Transaction submitted. Waiting for confirmation...', { id: 'deposit' });
 
-      const receipt = await waitForTransactionReceipt(config, { hash });
+      await waitForTransactionReceipt(config, { hash });
 
       setTxStatus('Transaction confirmed!');
       toast.success('Deposit successful!', { id: 'deposit' });
@@ -225,6 +374,15 @@ export function DepositModal({
     }
   };
 
+  // a batch loses the referral suffix, so referred deposits approve first
+  const batchable = canBatch && !referralCode;
+
+  const depositRoute = (amountBN: bigint): DepositRoute => {
+    if (isEther || amountBN <= allowance) return 'direct';
+    if (permitDomain) return 'permit';
+    return batchable ? 'batch' : 'approve';
+  };
+
   const handleMax = () => {
     if (walletBalance > 0) {
       const balanceFormatted = formatUnits(walletBalance, Number(assetDecimals));
@@ -234,16 +392,43 @@ export function DepositModal({
 
   if (!isOpen) return null;
 
+  let amountBN: bigint | null = null;
+  try {
+    amountBN = depositAmount ? parseUnits(depositAmount, Number(assetDecimals)) : null;
+  } catch {
+    amountBN = null;
+  }
+
+  // ChainlinkLibrary.getPrice reverts with StalePrice past the heartbeat
+  const isStale = answer !== null && asset.priceFeed !== null &&
+    BigInt(Math.floor(Date.now() / 1000)) - answer.updatedAt > BigInt(asset.priceFeed.frequency);
+  const preview = amountBN && answer && asset.priceFeed && answer.price > 0
+    ? previewDeposit({
+        assetAmount: amountBN,
+        assetDecimals: Number(assetDecimals),
+        price: answer.price,
+        feedDecimals: asset.priceFeed.decimals,
+        tokensPerUsd: BigInt(tokensPerUsd),
+        tokenCap: BigInt(tokenCapAmount),
+        totalSupply,
+      })
+    : null;
+  const warning = isStale
+    ? 'The price feed is stale, deposits will revert until it updates.'
+    : preview?.error ? PREVIEW_WARNINGS[preview.error] : null;
+  const invalidAmount = amountBN === null || amountBN > walletBalance;
+
   const balanceFormatted = formatNumber(walletBalance.toString(), assetDecimals);
   const allowanceFormatted = formatNumber(allowance.toString(), assetDecimals);
-  const needsApproval = depositAmount && parseUnits(depositAmount || '0', Number(assetDecimals)) > allowance;
-  const previewSharesFormatted = previewShares > 0 ? formatNumber(previewShares.toString(), assetDecimals) : 0;
+  const route = amountBN !== null ? depositRoute(amountBN) : null;
+  const needsApproval = route === 'approve';
+  const twoStep = !isEther && !permitDomain && !batchable;
 
   return (
     <div className="fixed inset-0 bg-black/90 flex items-center justify-center z-50" onClick={onClose}>
       <div className="bg-white dark:bg-dark-primary rounded-xl p-6 max-w-md w-full mx-4 shadow-xl" onClick={(e) => e.stopPropagation()}>
         <div className="flex items-center justify-between mb-6">
-          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Deposit {symbol}</h2>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Deposit {asset.symbol}</h2>
           <button
             onClick={onClose}
             className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 text-2xl font-bold cursor-pointer"
@@ -252,16 +437,50 @@ export function DepositModal({
           </button>
         </div>
 
+        {/* Accepted Assets */}
+        <div className="mb-4 grid grid-cols-2 gap-2">
+          {acceptedAssets.map((accepted) => {
+            const selected = accepted.address.toLowerCase() === assetAddress.toLowerCase();
+            const balance = balances[accepted.address.toLowerCase()] ?? BigInt(0);
+            return (
+              <button
+                key={accepted.id}
+                onClick={() => handleSelectAsset(accepted.address as Address)}
+                disabled={isApproving || isDepositing}
+                className={`flex items-center gap-2 px-3 py-2 rounded-lg border-2 text-left transition-colors cursor-pointer disabled:cursor-not-allowed ${selected ? 'border-primary bg-primary/10' : 'border-gray-200 dark:border-gray-700 hover:border-primary/50'}`}
+              >
+                <Image
+                  src={getTokenPicture('sepolia', accepted.address)}
+                  alt={accepted.symbol}
+                  width={24}
+                  height={24}
+                  className="rounded-full"
+                />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">{accepted.symbol}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {formatNumber(balance.toString(), accepted.decimals).toFixed(4)}
+                  </p>
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
         {/* Wallet Balance and Allowance Display */}
         <div className="mb-4 space-y-2">
           <div className="flex justify-between text-sm">
             <span className="text-gray-600 dark:text-gray-400">Wallet Balance:</span>
-            <span className="font-medium text-gray-900 dark:text-white">{balanceFormatted.toFixed(2)} {symbol}</span>
-          </div>
-          <div className="flex justify-between text-sm">
-            <span className="text-gray-600 dark:text-gray-400">Approved Amount:</span>
-            <span className="font-medium text-gray-900 dark:text-white">{allowanceFormatted.toFixed(2)} {symbol}</span>
+            <span className="font-medium text-gray-900 dark:text-white">{balanceFormatted.toFixed(2)} {asset.symbol}</span>
           </div>
+          {!isEther && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600 dark:text-gray-400">Approved Amount:</span>
+              <span className="font-medium text-gray-900 dark:text-white">
+                {allowance === maxUint256 ? 'Unlimited' : `${allowanceFormatted.toFixed(2)} ${asset.symbol}`}
+              </span>
+            </div>
+          )}
         </div>
 
         {/* Amount Input */}
@@ -287,18 +506,74 @@ export function DepositModal({
           </div>
         </div>
 
-        {/* Steps */}
-        <div className="mb-6">
-          <div className="flex items-center justify-between mb-4">
-            <div className={`flex-1 text-center py-2 ${step === 'approve' ? 'bg-primary/20 text-primary' : 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-400'} rounded-lg transition-colors`}>
-              <span className="font-medium">1. Approve</span>
+        {referralCode && (
+          <p className="mb-6 -mt-4 text-xs text-gray-500 dark:text-gray-400">
+            Referred by <span className="font-mono">{referralCode}</span>
+          </p>
+        )}
+
+        {/* Tokens Preview */}
+        {preview && (
+          <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-600 dark:text-gray-400">Deposit Value:</span>
+              <span className="font-medium text-gray-900 dark:text-white">$ {Number(formatUnits(preview.usdValue, 18)).toFixed(2)}</span>
             </div>
-            <div className="w-4 h-0.5 bg-gray-300 dark:bg-gray-600"></div>
-            <div className={`flex-1 text-center py-2 ${step === 'deposit' ? 'bg-primary/20 text-primary' : 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-400'} rounded-lg transition-colors`}>
-              <span className="font-medium">2. Deposit</span>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-600 dark:text-gray-400">Tokens You Will Receive:</span>
+              <span className="text-lg font-semibold text-gray-900 dark:text-white">
+                {Number(formatUnits(preview.tokenAmount, 18)).toFixed(2)} {vaultSymbol}
+              </span>
             </div>
           </div>
-        </div>
+        )}
+
+        {warning && (
+          <div className="mb-6 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+            <p className="text-sm text-yellow-800 dark:text-yellow-200">{warning}</p>
+          </div>
+        )}
+
+        {/* Approval */}
+        {!isEther && (
+          <div className="mb-6 space-y-2">
+            {permitDomain ? (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {asset.symbol} supports permits: you sign an approval for this deposit only, no separate transaction.
+              </p>
+            ) : (
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={unlimitedApproval}
+                  onChange={(e) => handleUnlimitedApproval(e.target.checked)}
+                  className="accent-primary"
+                />
+                Unlimited approval (skip approving future {asset.symbol} deposits)
+              </label>
+            )}
+            {!permitDomain && batchable && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Your wallet confirms the approval and the deposit together in one prompt.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Steps */}
+        {twoStep && (
+          <div className="mb-6">
+            <div className="flex items-center justify-between mb-4">
+              <div className={`flex-1 text-center py-2 ${step === 'approve' ? 'bg-primary/20 text-primary' : 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-400'} rounded-lg transition-colors`}>
+                <span className="font-medium">1. Approve</span>
+              </div>
+              <div className="w-4 h-0.5 bg-gray-300 dark:bg-gray-600"></div>
+              <div className={`flex-1 text-center py-2 ${step === 'deposit' ? 'bg-primary/20 text-primary' : 'bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-400'} rounded-lg transition-colors`}>
+                <span className="font-medium">2. Deposit</span>
+              </div>
+            </div>
+          </div>
+        )}
 
         {/* Transaction Status */}
         {(isApproving || isDepositing || txStatus) && (
@@ -331,13 +606,7 @@ export function DepositModal({
           {needsApproval ? (
             <button
               onClick={handleApprove}
-              disabled={!depositAmount || isApproving || (() => {
-                try {
-                  return depositAmount ? parseUnits(depositAmount, Number(assetDecimals)) > walletBalance : true;
-                } catch {
-                  return true;
-                }
-              })()}
+              disabled={!depositAmount || isApproving || invalidAmount}
               className="flex-1 px-4 py-3 bg-primary/20 cursor-pointer disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
             >
               {isApproving ? 'Approving...' : 'Approve'}
@@ -345,7 +614,7 @@ export function DepositModal({
           ) : (
             <button
               onClick={handleDeposit}
-              disabled={!depositAmount || isDepositing}
+              disabled={!depositAmount || isDepositing || invalidAmount || warning !== null}
               className="flex-1 px-4 py-3 bg-primary/60 hover:bg-primary/80 cursor-pointer disabled:bg-gray-400 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors"
             >
               {isDepositing ? 'Depositing...' : 'Deposit'}
@@ -359,18 +628,6 @@ export function DepositModal({
             Cancel
           </button>
         </div>
-
-        {/* Shares Preview */}
-        {depositAmount && previewShares > 0 && (
-          <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-700">
-            <div className="flex justify-between items-center">
-              <span className="text-sm text-gray-600 dark:text-gray-400">Shares You Will Receive:</span>
-              <span className="text-lg font-semibold text-gray-900 dark:text-white">
-                {previewSharesFormatted.toFixed(2)} {assetSymbol}
-              </span>
-            </div>
-          </div>
-        )}
       </div>
     </div>
   );
@@ -5,7 +5,7 @@ import { useAccount, useChainId } from 'wagmi';
 import { writeContract, waitForTransactionReceipt } from '@wagmi/core';
 import { config } from '@/lib/wagmi';
 import { parseUnits, formatUnits, type Address } from 'viem';
-import FlyingICOABI from '@/app/abis/FlyingICO.json';
+import { flyingIco } from '@/lib/contracts';
 import { formatNumber } from '@/app/utils/helper';
 import { chainByID } from '@/app/utils/chains';
 import { getTokenPicture } from '@/app/utils/logos';
@@ -65,9 +65,8 @@ export function DivestModal({
       toast.loading('Please confirm the divest transaction in your wallet', { id: 'divest' });
 
       const hash = await writeContract(config, {
-        address: vaultAddress,
-        abi: FlyingICOABI,
-        functionName: 'divest',
+        ...flyingIco(vaultAddress),
+        functionName: 'redeem',
         args: [positionIdBN, sharesBN],
       });
 
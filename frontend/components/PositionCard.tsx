@@ -3,55 +3,40 @@ import { useState } from 'react';
 import { DivestModal } from './DivestModal';
 import { UnlockModal } from './UnlockModal';
 import { type Address } from 'viem';
-
-interface FlyingPosition {
-    id: string;
-    positionId: string;
-    user: string;
-    assetAmount: string;
-    shareAmount: string;
-    initialAssets: string;
-    sharesUnlocked: string;
-    assetsDivested: string;
-    vestingAmount: string;
-    isClosed: boolean;
-    createdAt: string;
-}
+import type { PositionFields } from '@/lib/graphql';
 
 interface PositionCardProps {
-    position: FlyingPosition;
+    position: PositionFields;
     vaultAddress: Address;
-    vaultDecimals: string;
+    assetDecimals: string;
+    assetPriceUsd: number; // latest oracle price of the position's asset
     vestingRate: number;
-    pricePerShare: number;
-    assetAddress: Address;
     vaultSymbol: string;
-    vaultDivestFee: number;
 }
 
-export function PositionCard({ position, vaultAddress, vaultDecimals, vestingRate, pricePerShare, assetAddress, vaultSymbol, vaultDivestFee }: PositionCardProps) {
+export function PositionCard({ position, vaultAddress, assetDecimals, assetPriceUsd, vestingRate, vaultSymbol }: PositionCardProps) {
     const [isDivestModalOpen, setIsDivestModalOpen] = useState(false);
     const [isUnlockModalOpen, setIsUnlockModalOpen] = useState(false);
-    
-    const positionShare = formatNumber(position.shareAmount, vaultDecimals);
-    const vestingAmount = formatNumber(position.vestingAmount, vaultDecimals);
-    const divestibleShares = parseFloat((vestingAmount * vestingRate) - (vestingAmount - positionShare) + "");
-    const vestedShares = parseFloat((positionShare * (1 - vestingRate)) + "").toFixed(2);
 
-    // Calculate profit/loss
-    const initialAssets = formatNumber(position.initialAssets, vaultDecimals);
-    const assetsDivested = formatNumber(position.assetsDivested, vaultDecimals);
-    const assetsDivestedAfterFee = assetsDivested * (1-vaultDivestFee);
-    const initialValue = initialAssets - assetsDivested;
+    // ICO tokens have 18 decimals, asset amounts the asset's own
+    const positionShare = formatNumber(position.tokenAmount);
+    const vestingAmount = formatNumber(position.vestingAmount);
+    // mirrors redeemableTokens(positionId)
+    const divestibleShares = Math.max(0, (vestingAmount * vestingRate) - (vestingAmount - positionShare));
 
-    const sharesUnlocked = formatNumber(position.sharesUnlocked, vaultDecimals);
-    const finalValue = (positionShare + sharesUnlocked) * pricePerShare;
+    // backing still held for the position, at the latest price, against the
+    // deposit's cost basis for the tokens left in it
+    const assetAmount = formatNumber(position.assetAmount, assetDecimals);
+    const initialTokens = formatNumber(position.initialTokenAmount);
+    const initialValue = initialTokens > 0 ? parseFloat(position.depositUsdValue) * positionShare / initialTokens : 0;
+    const finalValue = assetAmount * assetPriceUsd;
 
-    const profitLoss = parseFloat(finalValue + "") - parseFloat(initialValue + "");
+    const profitLoss = finalValue - initialValue;
     const profitLossPercentage = initialValue > 0 ? ((profitLoss / initialValue) * 100).toFixed(2) : "0.00";
     const isProfit = profitLoss > -0.00000001;
 
-    const redeemableValue = formatNumber(position.assetAmount, vaultDecimals) * (1-vaultDivestFee);
+    // assets returned per token redeemed, as in _computeAssetAmount
+    const assetsPerShare = positionShare > 0 ? assetAmount / positionShare : 0;
 
     return (
         <>
@@ -95,7 +80,7 @@ export function PositionCard({ position, vaultAddress, vaultDecimals, vestingRat
                 <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-3">
                     <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Claimable Shares</p>
                     <p className="text-lg font-semibold text-gray-900 dark:text-white truncate">
-                        {formatNumber(position.shareAmount, vaultDecimals).toFixed(2)}
+                        {positionShare.toFixed(2)}
                     </p>
                 </div>
             </div>
@@ -104,7 +89,7 @@ export function PositionCard({ position, vaultAddress, vaultDecimals, vestingRat
                 <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-3">
                     <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Redeemable Value</p>
                     <p className="text-lg font-semibold text-gray-900 dark:text-white truncate">
-                        {redeemableValue.toFixed(2)}
+                        {assetAmount.toFixed(2)}
                     </p>
                 </div>
 
@@ -121,31 +106,6 @@ export function PositionCard({ position, vaultAddress, vaultDecimals, vestingRat
                 </div>
             </div>
 
-            {/* <div className="border-t border-gray-700 pt-4 grid grid-cols-2 lg:grid-cols-2 gap-4 mb-4">
-                
-                <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-3">
-                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Assets Redeemed</p>
-                    <p className="text-lg font-semibold text-gray-900 dark:text-white truncate">
-                        {assetsDivestedAfterFee.toFixed(2)}
-                    </p>
-                </div>
-
-                <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-3">
-                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Shares Claimed</p>
-                    <p className="text-lg font-semibold text-gray-900 dark:text-white truncate">
-                        {formatNumber(position.sharesUnlocked, vaultDecimals).toFixed(2)}
-                    </p>
-                </div>
-
-                <div className="bg-gray-50 dark:bg-gray-900 rounded-lg p-3">
-                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Non-Redeemable Shares</p>
-                    <p className="text-lg font-semibold text-gray-900 dark:text-white truncate">
-                        {vestedShares}
-                    </p>
-                </div>
-
-            </div> */}
-
             {/* Vesting Information */}
             <div className="">
                 {/* Vesting Progress Bar */}
@@ -172,10 +132,10 @@ export function PositionCard({ position, vaultAddress, vaultDecimals, vestingRat
             vaultAddress={vaultAddress}
             positionId={position.positionId}
             maxShares={divestibleShares}
-            vaultDecimals={vaultDecimals}
-            assetAddress={assetAddress}
-            divestFee={vaultDivestFee}
-            pricePerShare={pricePerShare}
+            vaultDecimals="18"
+            assetAddress={position.asset as Address}
+            divestFee={0}
+            pricePerShare={assetsPerShare}
         />
         <UnlockModal
             isOpen={isUnlockModalOpen}
@@ -183,7 +143,7 @@ export function PositionCard({ position, vaultAddress, vaultDecimals, vestingRat
             vaultAddress={vaultAddress}
             positionId={position.positionId}
             maxShares={positionShare}
-            vaultDecimals={vaultDecimals}
+            vaultDecimals="18"
             vaultSymbol={vaultSymbol}
         />
         </>
@@ -0,0 +1,20 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { normalizeReferralCode, storeReferralCode } from '@/app/utils/referral';
+
+// Remembers the code of a `?ref=` link so later deposits are attributed to it
+export function ReferralCapture() {
+  const searchParams = useSearchParams();
+  const ref = searchParams.get('ref');
+
+  useEffect(() => {
+    const code = normalizeReferralCode(ref);
+    if (code) {
+      storeReferralCode(code);
+    }
+  }, [ref]);
+
+  return null;
+}
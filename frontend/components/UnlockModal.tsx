@@ -5,7 +5,7 @@ import { useAccount, useChainId } from 'wagmi';
 import { writeContract, waitForTransactionReceipt } from '@wagmi/core';
 import { config } from '@/lib/wagmi';
 import { parseUnits, formatUnits, type Address } from 'viem';
-import FlyingICOABI from '@/app/abis/FlyingICO.json';
+import { flyingIco } from '@/lib/contracts';
 import { formatNumber } from '@/app/utils/helper';
 import { chainByID } from '@/app/utils/chains';
 import toast from 'react-hot-toast';
@@ -60,9 +60,8 @@ export function UnlockModal({
       toast.loading('Please confirm the unlock transaction in your wallet', { id: 'unlock' });
 
       const hash = await writeContract(config, {
-        address: vaultAddress,
-        abi: FlyingICOABI,
-        functionName: 'unlock',
+        ...flyingIco(vaultAddress),
+        functionName: 'claim',
         args: [positionIdBN, sharesBN],
       });
 
@@ -0,0 +1,100 @@
+import { zeroAddress, type Address, type ContractFunctionReturnType } from 'viem';
+import { factoryAbi, flyingIcoAbi } from './abis.generated';
+
+export { factoryAbi, flyingIcoAbi };
+
+// FlyingICO keys native ETH positions and backing balances by the zero address
+export const ETH_ADDRESS: Address = zeroAddress;
+
+// FactoryFlyingICO deployment, launching ICOs through `createFlyingIco`
+export const FACTORY_ADDRESS = process.env.NEXT_PUBLIC_VAULT_FACTORY_ADDRESS as Address | undefined;
+
+// Spread into readContract / writeContract / simulateContract calls
+export const flyingIco = (address: Address) => ({ address, abi: flyingIcoAbi }) as const;
+
+export const factory = (address: Address) => ({ address, abi: factoryAbi }) as const;
+
+// Chainlink AggregatorV3Interface, as read by ChainlinkLibrary.getPrice and
+// the FlyingICO constructor
+export const aggregatorAbi = [
+  {
+    type: 'function',
+    name: 'decimals',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint8' }],
+  },
+  {
+    type: 'function',
+    name: 'latestRoundData',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      { name: 'roundId', type: 'uint80' },
+      { name: 'answer', type: 'int256' },
+      { name: 'startedAt', type: 'uint256' },
+      { name: 'updatedAt', type: 'uint256' },
+      { name: 'answeredInRound', type: 'uint80' },
+    ],
+  },
+] as const;
+
+const WAD = BigInt(10) ** BigInt(18);
+
+// FlyingICO constructor limits on each accepted asset
+export const MAX_FEED_DECIMALS = 18;
+export const MAX_ASSET_DECIMALS = 18;
+export const MAX_FREQUENCY = 30 * 24 * 60 * 60; // 30 days, in seconds
+
+// FlyingICO's _MIN_MINT_PER_POSITION, one token
+export const MIN_MINT_PER_POSITION = WAD;
+
+export interface DepositPreview {
+  /** USD value of the deposit, 18 decimals */
+  usdValue: bigint;
+  /** tokens minted for the deposit, 18 decimals */
+  tokenAmount: bigint;
+  /** custom error `depositEther` / `depositERC20` would revert with */
+  error: 'FlyingICO__ZeroUsdValue' | 'FlyingICO__ZeroTokenAmount' | 'FlyingICO__DepositTooSmall' | 'FlyingICO__TokensCapExceeded' | null;
+}
+
+/**
+ * Mirrors `_computeTokenAmount`: the deposit's USD value at the feed's
+ * `price` (`_assetToUsdValue`), times `tokensPerUsd` whole tokens, checked
+ * against the minimum mint and the cap. `tokenCap` and `totalSupply` are in
+ * token units.
+ */
+export function previewDeposit({
+  assetAmount,
+  assetDecimals,
+  price,
+  feedDecimals,
+  tokensPerUsd,
+  tokenCap,
+  totalSupply,
+}: {
+  assetAmount: bigint;
+  assetDecimals: number;
+  price: bigint;
+  feedDecimals: number;
+  tokensPerUsd: bigint;
+  tokenCap: bigint;
+  totalSupply: bigint;
+}): DepositPreview {
+  const usdValue = (assetAmount * price * WAD) / (BigInt(10) ** BigInt(assetDecimals) * BigInt(10) ** BigInt(feedDecimals));
+  const tokenAmount = usdValue * tokensPerUsd;
+
+  let error: DepositPreview['error'] = null;
+  if (usdValue === BigInt(0)) error = 'FlyingICO__ZeroUsdValue';
+  else if (tokenAmount === BigInt(0)) error = 'FlyingICO__ZeroTokenAmount';
+  else if (tokenAmount < MIN_MINT_PER_POSITION) error = 'FlyingICO__DepositTooSmall';
+  else if (totalSupply + tokenAmount > tokenCap) error = 'FlyingICO__TokensCapExceeded';
+
+  return { usdValue, tokenAmount, error };
+}
+
+/** `positions(positionId)`: [user, asset, assetAmount, tokenAmount, vestingAmount] */
+export type Position = ContractFunctionReturnType<typeof flyingIcoAbi, 'view', 'positions'>;
+
+/** `priceFeeds(asset)`: [feed, frequency] */
+export type PriceFeedConfig = ContractFunctionReturnType<typeof flyingIcoAbi, 'view', 'priceFeeds'>;
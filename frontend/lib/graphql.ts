@@ -1,4 +1,15 @@
 import { GraphQLClient } from 'graphql-request';
+import type {
+  AcceptedAsset,
+  ActivityEvent,
+  ActivityEventFields,
+  Creator,
+  FlyingICO,
+  FlyingPosition,
+  Oracle,
+  PriceFeed,
+  Treasury,
+} from './schema.generated';
 
 const GRAPHQL_ENDPOINT = process.env.NEXT_PUBLIC_GRAPHQL_ENDPOINT || '';
 const API_KEY = process.env.NEXT_PUBLIC_GRAPHQL_API_KEY || '';
@@ -9,62 +20,280 @@ export const graphqlClient = new GraphQLClient(GRAPHQL_ENDPOINT, {
   } : {},
 });
 
-export const GET_STAK_VAULTS = `
+// Selections are typed against schema.generated.ts (`pnpm codegen`): each
+// fragment is built from a field list checked against the entity type, and
+// nested selections go through `With`, so a field renamed or removed in
+// indexer/schema.graphql fails type-checking here.
+
+// Fields selectable without a sub-selection
+type ScalarField<T> = Exclude<
+  { [K in keyof T]: NonNullable<T[K]> extends string | number | boolean ? K : never }[keyof T],
+  '__typename'
+>;
+
+// Sub-selections of `T`, keyed by field name
+type With<T, S extends { [K in keyof S]: K extends keyof T ? unknown : never }> = S;
+
+const fragment = (name: string, on: string, fields: readonly string[]) =>
+  `fragment ${name} on ${on} {\n    ${fields.join('\n    ')}\n  }`;
+
+const ICO_FIELDS = [
+  'id',
+  'name',
+  'symbol',
+  'creatorAddress',
+  'assetSymbols',
+  'creationTransaction',
+  'sequencer',
+  'vestingStart',
+  'vestingEnd',
+  'tokenCap',
+  'tokensPerUsd',
+  'tokenCapAmount',
+  'capUtilizationBps',
+  'phase',
+  'totalSupply',
+  'tokensRedeemed',
+  'tokensClaimed',
+  'lockedSupply',
+  'circulatingSupply',
+  'holderCount',
+  'backingUsd',
+  'availableUsd',
+  'tvlUsd',
+  'positionCount',
+  'activePositionCount',
+  'createdAt',
+] as const satisfies readonly ScalarField<FlyingICO>[];
+
+const ASSET_FIELDS = [
+  'id',
+  'address',
+  'symbol',
+  'decimals',
+  'depositedAssets',
+  'redeemedAssets',
+  'releasedAssets',
+  'withdrawnAssets',
+  'depositedUsd',
+  'lastPriceUsd',
+  'totalAssets',
+  'backingAssets',
+  'availableAssets',
+  'backingUsd',
+  'availableUsd',
+  'totalUsd',
+] as const satisfies readonly ScalarField<AcceptedAsset>[];
+
+const PRICE_FEED_FIELDS = [
+  'id',
+  'address',
+  'decimals',
+  'frequency',
+  'staleAt',
+  'sequencer',
+  'sequencerGracePeriod',
+] as const satisfies readonly ScalarField<PriceFeed>[];
+
+const ORACLE_FIELDS = ['price', 'updatedAt'] as const satisfies readonly ScalarField<Oracle>[];
+
+const TREASURY_FIELDS = ['id'] as const satisfies readonly ScalarField<Treasury>[];
+
+const CREATOR_FIELDS = [
+  'id',
+  'icoCount',
+  'firstLaunchAt',
+  'lastLaunchAt',
+] as const satisfies readonly ScalarField<Creator>[];
+
+const POSITION_FIELDS = [
+  'id',
+  'positionId',
+  'user',
+  'asset',
+  'assetAmount',
+  'tokenAmount',
+  'vestingAmount',
+  'initialAssetAmount',
+  'initialTokenAmount',
+  'depositUsdValue',
+  'assetPriceUsd',
+  'redeemedTokens',
+  'redeemedAssets',
+  'claimedTokens',
+  'claimedAssets',
+  'isClosed',
+  'closedAt',
+  'createdAt',
+] as const satisfies readonly ScalarField<FlyingPosition>[];
+
+const ACTIVITY_FIELDS = [
+  'id',
+  'sender',
+  'asset',
+  'blockNumber',
+  'timestamp',
+  'transactionHash',
+] as const satisfies readonly ScalarField<ActivityEventFields>[];
+
+type ActivityType = ActivityEvent['__typename'];
+type Activity<T extends ActivityType> = Extract<ActivityEvent, { __typename: T }>;
+
+// per implementation, selected with `... on <type>`
+const ACTIVITY_DETAILS = {
+  Deposit: ['assetAmount', 'tokensMinted', 'usdValue'],
+  Redemption: ['tokensBurned', 'assetAmount'],
+  Claim: ['tokensClaimed', 'assetAmount'],
+  TreasuryWithdrawal: ['assetAmount', 'usdValue'],
+  PositionClosure: [],
+} as const satisfies { [T in ActivityType]: readonly ScalarField<Activity<T>>[] };
+
+export type ICOFields = Pick<FlyingICO, (typeof ICO_FIELDS)[number]>;
+export type AssetFields = Pick<AcceptedAsset, (typeof ASSET_FIELDS)[number]>;
+export type PriceFeedFields = Pick<PriceFeed, (typeof PRICE_FEED_FIELDS)[number]>;
+export type OracleFields = Pick<Oracle, (typeof ORACLE_FIELDS)[number]>;
+export type TreasuryFields = Pick<Treasury, (typeof TREASURY_FIELDS)[number]>;
+export type CreatorFields = Pick<Creator, (typeof CREATOR_FIELDS)[number]>;
+export type PositionFields = Pick<FlyingPosition, (typeof POSITION_FIELDS)[number]>;
+type ActivityDetail<T extends ActivityType> = (typeof ACTIVITY_DETAILS)[T][number];
+export type ActivityFields = {
+  [T in ActivityType]: Pick<
+    Activity<T>,
+    Extract<keyof Activity<T>, '__typename' | (typeof ACTIVITY_FIELDS)[number] | ActivityDetail<T>>
+  >;
+}[ActivityType];
+
+export const ICO_FRAGMENT = fragment('ICOFields', 'FlyingICO', ICO_FIELDS);
+export const ASSET_FRAGMENT = fragment('AssetFields', 'AcceptedAsset', ASSET_FIELDS);
+export const PRICE_FEED_FRAGMENT = fragment('PriceFeedFields', 'PriceFeed', PRICE_FEED_FIELDS);
+export const ORACLE_FRAGMENT = fragment('OracleFields', 'Oracle', ORACLE_FIELDS);
+export const TREASURY_FRAGMENT = fragment('TreasuryFields', 'Treasury', TREASURY_FIELDS);
+export const CREATOR_FRAGMENT = fragment('CreatorFields', 'Creator', CREATOR_FIELDS);
+export const POSITION_FRAGMENT = fragment('PositionFields', 'FlyingPosition', POSITION_FIELDS);
+export const ACTIVITY_FRAGMENT = fragment('ActivityFields', 'ActivityEvent', [
+  '__typename',
+  ...ACTIVITY_FIELDS,
+  ...Object.entries(ACTIVITY_DETAILS)
+    .filter(([, fields]) => fields.length > 0)
+    .map(([type, fields]) => `... on ${type} { ${fields.join(' ')} }`),
+]);
+
+export type ICOSummary = ICOFields & With<FlyingICO, { acceptedAssets: AssetFields[] }>;
+
+export type ICODetail = ICOFields &
+  With<
+    FlyingICO,
+    {
+      treasury: TreasuryFields;
+      acceptedAssets: (AssetFields &
+        With<AcceptedAsset, { priceFeed: (PriceFeedFields & With<PriceFeed, { oracle: OracleFields }>) | null }>)[];
+      positions: PositionFields[];
+      activity: ActivityFields[];
+    }
+  >;
+
+export interface GetFlyingICOsResult {
+  flyingICOs: ICOSummary[];
+}
+
+export interface GetFlyingICOResult {
+  flyingICO: ICODetail | null;
+}
+
+export const GET_FLYING_ICOS = `
   query GetFlyingICOs {
-    flyingVaults(first: 100, orderBy: createdAt, orderDirection: desc) {
-      id
-      asset
-      name
-      symbol
-      decimals
-      totalAssets
-      totalSupply
-      investedAssets
-      totalPerformanceFees
-      redeemsAtNavEnabled
-      positionCount
+    flyingICOs(first: 100, orderBy: createdAt, orderDirection: desc) {
+      ...ICOFields
+      acceptedAssets {
+        ...AssetFields
+      }
     }
   }
+  ${ICO_FRAGMENT}
+  ${ASSET_FRAGMENT}
 `;
 
-export const GET_STAK_VAULT = `
+export const GET_FLYING_ICO = `
   query GetFlyingICO($id: ID!) {
     flyingICO(id: $id) {
-      id
-      asset
-      name
-      symbol
-      decimals
-      owner
-      treasury
-      performanceRate
-      vestingStart
-      vestingEnd
-      redeemsAtNavEnabled
-      totalPerformanceFees
-      totalAssets
-      investedAssets
-      redeemableAssets
-      totalShares
-      totalSupply
-      divestFee
-      positionCount
-      createdAt
-      updatedAt
+      ...ICOFields
+      treasury {
+        ...TreasuryFields
+      }
+      acceptedAssets {
+        ...AssetFields
+        priceFeed {
+          ...PriceFeedFields
+          oracle {
+            ...OracleFields
+          }
+        }
+      }
       positions(first: 100, orderBy: createdAt, orderDirection: desc) {
-        id
-        positionId
-        user
-        assetAmount
-        shareAmount
-        sharesUnlocked
-        assetsDivested
-        vestingAmount
-        initialAssets
-        isClosed
-        createdAt
-        updatedAt
+        ...PositionFields
+      }
+      activity(first: 20, orderBy: timestamp, orderDirection: desc) {
+        ...ActivityFields
+      }
+    }
+  }
+  ${ICO_FRAGMENT}
+  ${TREASURY_FRAGMENT}
+  ${ASSET_FRAGMENT}
+  ${PRICE_FEED_FRAGMENT}
+  ${ORACLE_FRAGMENT}
+  ${POSITION_FRAGMENT}
+  ${ACTIVITY_FRAGMENT}
+`;
+
+// Turns user input into an icoSearch query: every word must match, as a
+// prefix, the ICO's name, symbol, creator address or an accepted asset symbol.
+export const toSearchText = (input: string) =>
+  input
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => `${word}:*`)
+    .join(' & ');
+
+export interface SearchFlyingICOsResult {
+  icoSearch: ICOSummary[];
+}
+
+export const SEARCH_FLYING_ICOS = `
+  query SearchFlyingICOs($text: String!) {
+    icoSearch(text: $text, first: 100) {
+      ...ICOFields
+      acceptedAssets {
+        ...AssetFields
+      }
+    }
+  }
+  ${ICO_FRAGMENT}
+  ${ASSET_FRAGMENT}
+`;
+
+export type CreatorICO = ICOFields & With<FlyingICO, { acceptedAssets: AssetFields[] }>;
+
+export type CreatorDetail = CreatorFields & With<Creator, { icos: CreatorICO[] }>;
+
+export interface GetCreatorResult {
+  creator: CreatorDetail | null;
+}
+
+export const GET_CREATOR = `
+  query GetCreator($id: ID!) {
+    creator(id: $id) {
+      ...CreatorFields
+      icos(first: 100, orderBy: createdAt, orderDirection: desc) {
+        ...ICOFields
+        acceptedAssets {
+          ...AssetFields
+        }
       }
     }
   }
+  ${CREATOR_FRAGMENT}
+  ${ICO_FRAGMENT}
+  ${ASSET_FRAGMENT}
 `;
@@ -0,0 +1,103 @@
+import { readContract, signTypedData } from '@wagmi/core';
+import { domainSeparator, erc20Abi, parseSignature, type Address, type TypedDataDomain } from 'viem';
+import { config } from './wagmi';
+
+// EIP-2612 and EIP-5267 views of a permit token
+const erc20PermitAbi = [
+  {
+    type: 'function',
+    name: 'DOMAIN_SEPARATOR',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'bytes32' }],
+  },
+  {
+    type: 'function',
+    name: 'nonces',
+    stateMutability: 'view',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }],
+  },
+  {
+    type: 'function',
+    name: 'eip712Domain',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      { name: 'fields', type: 'bytes1' },
+      { name: 'name', type: 'string' },
+      { name: 'version', type: 'string' },
+      { name: 'chainId', type: 'uint256' },
+      { name: 'verifyingContract', type: 'address' },
+      { name: 'salt', type: 'bytes32' },
+      { name: 'extensions', type: 'uint256[]' },
+    ],
+  },
+] as const;
+
+const PERMIT_TYPES = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' },
+  ],
+} as const;
+
+/**
+ * EIP-712 domain of `token` if it supports EIP-2612 permits, null otherwise.
+ * The domain comes from `eip712Domain` (EIP-5267) or, for older tokens, from
+ * `name` with version "1", and must hash to the token's DOMAIN_SEPARATOR, so
+ * tokens with a non-standard permit (e.g. DAI on mainnet) are left out.
+ */
+export async function getPermitDomain(token: Address, chainId: number): Promise<TypedDataDomain | null> {
+  try {
+    const separator = await readContract(config, { address: token, abi: erc20PermitAbi, functionName: 'DOMAIN_SEPARATOR' });
+
+    let domain: TypedDataDomain;
+    try {
+      const [, name, version] = await readContract(config, { address: token, abi: erc20PermitAbi, functionName: 'eip712Domain' });
+      domain = { name, version, chainId, verifyingContract: token };
+    } catch {
+      const name = await readContract(config, { address: token, abi: erc20Abi, functionName: 'name' });
+      domain = { name, version: '1', chainId, verifyingContract: token };
+    }
+
+    return domainSeparator({ domain }) === separator ? domain : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Signs a permit letting `spender` pull exactly `value` of the token until `deadline` */
+export async function signPermit({
+  domain,
+  owner,
+  spender,
+  value,
+  deadline,
+}: {
+  domain: TypedDataDomain;
+  owner: Address;
+  spender: Address;
+  value: bigint;
+  deadline: bigint;
+}) {
+  const nonce = await readContract(config, {
+    address: domain.verifyingContract as Address,
+    abi: erc20PermitAbi,
+    functionName: 'nonces',
+    args: [owner],
+  });
+
+  const signature = await signTypedData(config, {
+    domain,
+    types: PERMIT_TYPES,
+    primaryType: 'Permit',
+    message: { owner, spender, value, nonce, deadline },
+  });
+
+  const { r, s, v, yParity } = parseSignature(signature);
+  return { r, s, v: Number(v ?? BigInt(yParity + 27)) };
+}
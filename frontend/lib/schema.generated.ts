@@ -0,0 +1,642 @@
+// Generated by scripts/generate-graphql-types.ts from indexer/schema.graphql, do not edit.
+
+export interface FactoryFlyingICO {
+  __typename: 'FactoryFlyingICO';
+  id: string;
+  icoCount: string;
+  icos: FlyingICO[];
+  /** USD value of every factory ICO's assets, at the latest oracle prices */
+  backingUsd: string;
+  availableUsd: string;
+  tvlUsd: string;
+  blockNumber: string;
+  blockTimestamp: string;
+  transactionHash: string;
+}
+
+/** Mirrors _calculateVestingRate, which only depends on the block timestamp */
+export type VestingPhase = 'PRE_VESTING' | 'VESTING' | 'LOCKED';
+
+export interface FlyingICO {
+  __typename: 'FlyingICO';
+  id: string;
+  /** null for ICOs indexed as standalone data sources */
+  factory: FactoryFlyingICO | null;
+  name: string;
+  symbol: string;
+  /** the ICO contract is its own ERC20 */
+  token: Token;
+  /** account that launched the ICO through the factory; null for standalone ICOs */
+  creator: Creator | null;
+  creationBlock: string;
+  creationTransaction: string;
+  /**
+   * plain-text copies for icoSearch: the account that deployed the ICO, and
+   * the accepted assets' symbols separated by spaces
+   */
+  creatorAddress: string;
+  assetSymbols: string;
+  treasury: Treasury;
+  sequencer: string;
+  vestingStart: string;
+  vestingEnd: string;
+  /** whole tokens, as emitted by FlyingICO__Initialized */
+  tokenCap: string;
+  tokensPerUsd: string;
+  /** tokenCap in token units (18 decimals), comparable to totalSupply */
+  tokenCapAmount: string;
+  /** totalSupply / tokenCapAmount; redemptions lower it, milestones stay */
+  capUtilizationBps: number;
+  highestMilestoneBps: number;
+  milestones: RaiseMilestone[];
+  /** moved forward by handleFlyingBlock and by the handlers themselves */
+  phase: VestingPhase;
+  phaseChangedAt: string;
+  phaseTransitions: PhaseTransition[];
+  totalSupply: string;
+  tokensRedeemed: string;
+  tokensClaimed: string;
+  /**
+   * from the token's Transfer events: tokens held by the contract under PUTs,
+   * and claimed tokens circulating outside of it
+   */
+  lockedSupply: string;
+  circulatingSupply: string;
+  holderCount: string;
+  /** sum of the accepted assets' USD values */
+  backingUsd: string;
+  availableUsd: string;
+  tvlUsd: string;
+  positions: FlyingPosition[];
+  acceptedAssets: AcceptedAsset[];
+  priceFeeds: PriceFeed[];
+  activity: ActivityEvent[];
+  deposits: Deposit[];
+  redemptions: Redemption[];
+  claims: Claim[];
+  treasuryWithdrawals: TreasuryWithdrawal[];
+  accounts: AccountICO[];
+  holders: TokenHolder[];
+  hourData: FlyingICOHourData[];
+  dayData: FlyingICODayData[];
+  positionCount: string;
+  activePositionCount: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FlyingPosition {
+  __typename: 'FlyingPosition';
+  id: string;
+  ico: FlyingICO;
+  positionId: string;
+  user: string;
+  account: Account;
+  assetAmount: string;
+  tokenAmount: string;
+  vestingAmount: string;
+  asset: string;
+  initialAssetAmount: string;
+  initialTokenAmount: string;
+  /** cost basis implied by the deposit, in USD */
+  depositUsdValue: string;
+  assetPriceUsd: string;
+  redeemedTokens: string;
+  redeemedAssets: string;
+  claimedTokens: string;
+  claimedAssets: string;
+  isClosed: boolean;
+  closedAt: string | null;
+  activity: ActivityEvent[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AcceptedAsset {
+  __typename: 'AcceptedAsset';
+  id: string;
+  ico: FlyingICO;
+  address: string;
+  token: Token;
+  /** copied from the token */
+  symbol: string;
+  decimals: string;
+  priceFeed: PriceFeed | null;
+  /** cumulative flows, in asset decimals */
+  depositedAssets: string;
+  redeemedAssets: string;
+  releasedAssets: string;
+  withdrawnAssets: string;
+  depositedUsd: string;
+  /** asset/USD price implied by the latest deposit */
+  lastPriceUsd: string;
+  /**
+   * balances derived from the flows above
+   * totalAssets = backingAssets + availableAssets
+   */
+  totalAssets: string;
+  backingAssets: string;
+  availableAssets: string;
+  /** balances valued at the feed's latest answer */
+  backingUsd: string;
+  availableUsd: string;
+  totalUsd: string;
+  dayData: AcceptedAssetDayData[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Every user- or treasury-facing action, one immutable record per log.
+ * Query `activityEvents` to get a single chronological feed per ICO, sender or position.
+ */
+export interface ActivityEventFields {
+  id: string;
+  ico: FlyingICO;
+  position: FlyingPosition | null;
+  sender: string;
+  asset: string;
+  blockNumber: string;
+  timestamp: string;
+  transactionHash: string;
+  logIndex: string;
+}
+
+export type ActivityEvent = Deposit | Redemption | Claim | TreasuryWithdrawal | PositionClosure;
+
+export interface Deposit {
+  __typename: 'Deposit';
+  id: string;
+  ico: FlyingICO;
+  position: FlyingPosition;
+  sender: string;
+  asset: string;
+  assetAmount: string;
+  tokensMinted: string;
+  /** derived from tokensMinted and the ICO's tokensPerUsd */
+  usdValue: string;
+  assetPriceUsd: string;
+  tokensPerAsset: string;
+  /** referral code appended to the deposit calldata, if any */
+  referrer: Referrer | null;
+  blockNumber: string;
+  timestamp: string;
+  transactionHash: string;
+  logIndex: string;
+}
+
+export interface Redemption {
+  __typename: 'Redemption';
+  id: string;
+  ico: FlyingICO;
+  position: FlyingPosition;
+  sender: string;
+  asset: string;
+  tokensBurned: string;
+  assetAmount: string;
+  blockNumber: string;
+  timestamp: string;
+  transactionHash: string;
+  logIndex: string;
+}
+
+export interface Claim {
+  __typename: 'Claim';
+  id: string;
+  ico: FlyingICO;
+  position: FlyingPosition;
+  sender: string;
+  asset: string;
+  tokensClaimed: string;
+  assetAmount: string;
+  blockNumber: string;
+  timestamp: string;
+  transactionHash: string;
+  logIndex: string;
+}
+
+export interface TreasuryWithdrawal {
+  __typename: 'TreasuryWithdrawal';
+  id: string;
+  ico: FlyingICO;
+  position: FlyingPosition | null;
+  sender: string;
+  asset: string;
+  treasury: Treasury;
+  assetAmount: string;
+  /** at the asset's oracle price when withdrawn */
+  usdValue: string;
+  blockNumber: string;
+  timestamp: string;
+  transactionHash: string;
+  logIndex: string;
+}
+
+export interface PositionClosure {
+  __typename: 'PositionClosure';
+  id: string;
+  ico: FlyingICO;
+  position: FlyingPosition;
+  sender: string;
+  asset: string;
+  blockNumber: string;
+  timestamp: string;
+  transactionHash: string;
+  logIndex: string;
+}
+
+export interface FlyingICOHourData {
+  __typename: 'FlyingICOHourData';
+  id: string;
+  periodStartUnix: number;
+  ico: FlyingICO;
+  /** token levels, in token units; lockedTokens are held by the ICO under PUTs */
+  openTotalSupply: string;
+  closeTotalSupply: string;
+  openLockedTokens: string;
+  closeLockedTokens: string;
+  openPositionCount: string;
+  closePositionCount: string;
+  openActivePositionCount: string;
+  closeActivePositionCount: string;
+  /** USD value of the assets backing PUTs, revalued on every oracle answer */
+  openBackingUsd: string;
+  closeBackingUsd: string;
+  /** activity within the period */
+  depositCount: string;
+  tokensMinted: string;
+  redemptionCount: string;
+  tokensRedeemed: string;
+  claimCount: string;
+  tokensClaimed: string;
+  treasuryWithdrawalCount: string;
+  updatedAt: string;
+}
+
+export interface FlyingICODayData {
+  __typename: 'FlyingICODayData';
+  id: string;
+  date: number;
+  ico: FlyingICO;
+  /** token levels, in token units; lockedTokens are held by the ICO under PUTs */
+  openTotalSupply: string;
+  closeTotalSupply: string;
+  openLockedTokens: string;
+  closeLockedTokens: string;
+  openPositionCount: string;
+  closePositionCount: string;
+  openActivePositionCount: string;
+  closeActivePositionCount: string;
+  /** USD value of the assets backing PUTs, revalued on every oracle answer */
+  openBackingUsd: string;
+  closeBackingUsd: string;
+  /** activity within the period */
+  depositCount: string;
+  tokensMinted: string;
+  redemptionCount: string;
+  tokensRedeemed: string;
+  claimCount: string;
+  tokensClaimed: string;
+  treasuryWithdrawalCount: string;
+  updatedAt: string;
+}
+
+export interface AcceptedAssetDayData {
+  __typename: 'AcceptedAssetDayData';
+  id: string;
+  date: number;
+  asset: AcceptedAsset;
+  ico: FlyingICO;
+  /** flows within the day, in asset decimals */
+  depositedAssets: string;
+  redeemedAssets: string;
+  releasedAssets: string;
+  withdrawnAssets: string;
+  openBackingAssets: string;
+  closeBackingAssets: string;
+  openAvailableAssets: string;
+  closeAvailableAssets: string;
+  closeTotalAssets: string;
+  updatedAt: string;
+}
+
+export interface Account {
+  __typename: 'Account';
+  id: string;
+  address: string;
+  icos: AccountICO[];
+  assets: AccountAsset[];
+  positions: FlyingPosition[];
+  icoCount: string;
+  positionCount: string;
+  activePositionCount: string;
+  /** token units, summed across every ICO */
+  lockedTokens: string;
+  claimedTokens: string;
+  redeemedTokens: string;
+  firstActivityAt: string;
+  lastActivityAt: string;
+}
+
+export interface AccountICO {
+  __typename: 'AccountICO';
+  id: string;
+  account: Account;
+  ico: FlyingICO;
+  assets: AccountICOAsset[];
+  positionCount: string;
+  activePositionCount: string;
+  lockedTokens: string;
+  claimedTokens: string;
+  redeemedTokens: string;
+  firstActivityAt: string;
+  lastActivityAt: string;
+}
+
+/** Wallet holding an ICO's token outside of the contract, i.e. after a claim */
+export interface TokenHolder {
+  __typename: 'TokenHolder';
+  id: string;
+  ico: FlyingICO;
+  address: string;
+  balance: string;
+  transferCount: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Per-asset totals of a wallet across every ICO, keyed by asset address */
+export interface AccountAsset {
+  __typename: 'AccountAsset';
+  id: string;
+  account: Account;
+  asset: string;
+  depositedAssets: string;
+  redeemedAssets: string;
+}
+
+export interface AccountICOAsset {
+  __typename: 'AccountICOAsset';
+  id: string;
+  accountICO: AccountICO;
+  acceptedAsset: AcceptedAsset;
+  asset: string;
+  depositedAssets: string;
+  redeemedAssets: string;
+}
+
+/**
+ * Chainlink feed configured for one accepted asset of one ICO, with the
+ * checks ChainlinkLibrary.getPrice applies to it on every deposit
+ */
+export interface PriceFeed {
+  __typename: 'PriceFeed';
+  id: string;
+  ico: FlyingICO;
+  asset: AcceptedAsset;
+  address: string;
+  oracle: Oracle;
+  /** answer decimals, at most 18 (checked by the constructor) */
+  decimals: number;
+  /** heartbeat in seconds, at most 30 days; older answers make deposits revert */
+  frequency: string;
+  /**
+   * when the latest answer goes stale: deposits in this asset revert from then
+   * until the feed reports again
+   */
+  staleAt: string;
+  /** L2 sequencer uptime feed, zero address on L1 */
+  sequencer: string;
+  /**
+   * seconds the sequencer must be back up before its prices are accepted,
+   * zero without a sequencer
+   */
+  sequencerGracePeriod: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Latest answer of a Chainlink feed, shared by every ICO that uses it.
+ * Kept current by the ChainlinkAggregator template.
+ */
+export interface Oracle {
+  __typename: 'Oracle';
+  id: string;
+  address: string;
+  aggregator: string;
+  decimals: number;
+  description: string;
+  latestAnswer: string;
+  price: string;
+  roundId: string;
+  updatedAt: string;
+  feeds: PriceFeed[];
+}
+
+/**
+ * Protocol-wide totals across factory-launched and standalone ICOs, a
+ * singleton with id "1"
+ */
+export interface Protocol {
+  __typename: 'Protocol';
+  id: string;
+  icoCount: string;
+  userCount: string;
+  positionCount: string;
+  activePositionCount: string;
+  depositCount: string;
+  redemptionCount: string;
+  claimCount: string;
+  treasuryWithdrawalCount: string;
+  /** token units, summed across every ICO */
+  tokensMinted: string;
+  tokensRedeemed: string;
+  tokensClaimed: string;
+  depositedUsd: string;
+  /** USD value of every ICO's assets, at the latest oracle prices */
+  backingUsd: string;
+  availableUsd: string;
+  tvlUsd: string;
+  assets: ProtocolAsset[];
+  updatedAt: string;
+}
+
+/** Totals of one asset across every ICO accepting it, keyed by asset address */
+export interface ProtocolAsset {
+  __typename: 'ProtocolAsset';
+  id: string;
+  protocol: Protocol;
+  address: string;
+  token: Token;
+  symbol: string;
+  decimals: string;
+  icoCount: string;
+  /** cumulative flows, in asset decimals */
+  depositedAssets: string;
+  redeemedAssets: string;
+  releasedAssets: string;
+  withdrawnAssets: string;
+  /** backing still under PUT, and freed assets not yet withdrawn */
+  backingAssets: string;
+  availableAssets: string;
+  depositedUsd: string;
+  backingUsd: string;
+  availableUsd: string;
+  totalUsd: string;
+  updatedAt: string;
+}
+
+/** Recorded once per ICO and phase, with the PUT liability as the phase begins */
+export interface PhaseTransition {
+  __typename: 'PhaseTransition';
+  id: string;
+  ico: FlyingICO;
+  phase: VestingPhase;
+  previousPhase: VestingPhase;
+  /** scheduled boundary (vestingStart or vestingEnd), and the block it was seen in */
+  timestamp: string;
+  observedAt: string;
+  blockNumber: string;
+  /**
+   * tokens still under PUT, the part of them redeemable as the phase begins,
+   * and the USD value of the assets backing them
+   */
+  lockedTokens: string;
+  redeemableTokens: string;
+  backingUsd: string;
+}
+
+/**
+ * ERC20 metadata, keyed by address and shared by every ICO accepting the token.
+ * ETH uses the zero address.
+ */
+export interface Token {
+  __typename: 'Token';
+  id: string;
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: string;
+  acceptedBy: AcceptedAsset[];
+}
+
+/** First time an ICO's supply reached a share of its cap (25/50/75/90/100%) */
+export interface RaiseMilestone {
+  __typename: 'RaiseMilestone';
+  id: string;
+  ico: FlyingICO;
+  thresholdBps: number;
+  /** state right after the deposit that crossed the threshold */
+  totalSupply: string;
+  capUtilizationBps: number;
+  positionCount: string;
+  blockNumber: string;
+  timestamp: string;
+  transactionHash: string;
+}
+
+/**
+ * Account that launched ICOs through the factory, i.e. the sender of the
+ * transaction emitting Factory__FlyingIcoCreated
+ */
+export interface Creator {
+  __typename: 'Creator';
+  id: string;
+  address: string;
+  icos: FlyingICO[];
+  icoCount: string;
+  firstLaunchAt: string;
+  lastLaunchAt: string;
+}
+
+/**
+ * Treasury address named by one or more ICOs, usually a multisig running
+ * several launches
+ */
+export interface Treasury {
+  __typename: 'Treasury';
+  id: string;
+  address: string;
+  icos: FlyingICO[];
+  assets: TreasuryAsset[];
+  withdrawals: TreasuryWithdrawal[];
+  icoCount: string;
+  withdrawalCount: string;
+  withdrawnUsd: string;
+  /** claimed backing not withdrawn yet, at the latest oracle prices */
+  availableUsd: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** One asset of a treasury, summed over every ICO naming the treasury */
+export interface TreasuryAsset {
+  __typename: 'TreasuryAsset';
+  id: string;
+  treasury: Treasury;
+  address: string;
+  token: Token;
+  symbol: string;
+  decimals: string;
+  /**
+   * released by claims, withdrawn by AssetsTakenToTreasury, and the difference
+   * still withdrawable
+   */
+  releasedAssets: string;
+  withdrawnAssets: string;
+  availableAssets: string;
+  withdrawalCount: string;
+  withdrawnUsd: string;
+  availableUsd: string;
+  dayData: TreasuryAssetDayData[];
+  updatedAt: string;
+}
+
+export interface TreasuryAssetDayData {
+  __typename: 'TreasuryAssetDayData';
+  id: string;
+  date: number;
+  treasury: Treasury;
+  treasuryAsset: TreasuryAsset;
+  releasedAssets: string;
+  withdrawnAssets: string;
+  withdrawalCount: string;
+  withdrawnUsd: string;
+  closeAvailableAssets: string;
+  updatedAt: string;
+}
+
+/**
+ * Referral code carried by deposits. The frontend appends the code to the
+ * depositEther/depositERC20 calldata as a suffix the contract ignores:
+ * code bytes, one length byte, then the 4-byte marker 0x464c5952 ("FLYR").
+ */
+export interface Referrer {
+  __typename: 'Referrer';
+  /** the lowercased code */
+  id: string;
+  referrals: Referral[];
+  depositCount: string;
+  tokensMinted: string;
+  depositedUsd: string;
+  firstReferralAt: string;
+  lastReferralAt: string;
+}
+
+/** One deposit attributed to a referral code, id shared with the Deposit */
+export interface Referral {
+  __typename: 'Referral';
+  id: string;
+  referrer: Referrer;
+  deposit: Deposit;
+  ico: FlyingICO;
+  user: string;
+  asset: string;
+  assetAmount: string;
+  tokensMinted: string;
+  usdValue: string;
+  blockNumber: string;
+  timestamp: string;
+  transactionHash: string;
+}
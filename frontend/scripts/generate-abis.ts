@@ -0,0 +1,60 @@
+// Generates `lib/abis.generated.ts`, the FlyingICO and factory ABIs as
+// `as const` literals so viem and wagmi infer function names, arguments and
+// return types from them, from the Foundry artifacts of `forge build`:
+//
+//   pnpm abis
+//
+// FOUNDRY_OUT overrides the artifacts directory, `../contracts/out` by default.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+
+const ROOT = join(__dirname, '..');
+const ARTIFACTS = resolve(ROOT, process.env.FOUNDRY_OUT ?? join('..', 'contracts', 'out'));
+const OUTPUT = join(ROOT, 'lib', 'abis.generated.ts');
+const HEADER = '// Generated by scripts/generate-abis.ts from the Foundry artifacts, do not edit.\n';
+
+interface AbiItem {
+  type: string;
+  name?: string;
+}
+
+// exported name, artifact, and the functions the frontend calls
+const CONTRACTS: [string, string, string[]][] = [
+  [
+    'flyingIcoAbi',
+    'FlyingICO.sol/FlyingICO.json',
+    [
+      'depositEther',
+      'depositERC20',
+      'depositERC20WithPermit',
+      'redeem',
+      'claim',
+      'redeemableTokens',
+      'vestingRate',
+      'positions',
+      'positionsOf',
+      'backingBalances',
+      'priceFeeds',
+      'takeAssetsToTreasury',
+    ],
+  ],
+  ['factoryAbi', 'Factory.sol/FactoryFlyingICO.json', ['createFlyingIco']],
+];
+
+function generate(): string {
+  const output = CONTRACTS.map(([name, artifact, functions]) => {
+    const { abi } = JSON.parse(readFileSync(join(ARTIFACTS, artifact), 'utf8')) as { abi: AbiItem[] };
+
+    // fail here rather than in tsc if a function was renamed in the contracts
+    const missing = functions.filter((fn) => !abi.some((item) => item.type === 'function' && item.name === fn));
+    if (missing.length > 0) throw new Error(`${artifact} has no ${missing.join(', ')}`);
+
+    return `export const ${name} = ${JSON.stringify(abi, null, 2)} as const;`;
+  });
+
+  return `${HEADER}\n${output.join('\n\n')}\n`;
+}
+
+writeFileSync(OUTPUT, generate());
+console.log(`wrote ${OUTPUT}`);
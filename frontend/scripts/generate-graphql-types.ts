@@ -0,0 +1,96 @@
+// Generates `lib/schema.generated.ts`, one TypeScript type per entity,
+// interface and enum of the subgraph schema, as graph-node serializes them:
+//
+//   pnpm codegen
+//
+// BigInt, BigDecimal, Bytes, Int8 and Timestamp arrive as strings, and
+// references as the full referenced type, to be narrowed with `Pick` by the
+// queries in `lib/graphql.ts`.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { ASTNode, Kind, Token, TokenKind, TypeNode, parse } from 'graphql';
+
+const ROOT = join(__dirname, '..');
+const SCHEMA = join(ROOT, '..', 'indexer', 'schema.graphql');
+const OUTPUT = join(ROOT, 'lib', 'schema.generated.ts');
+const HEADER = '// Generated by scripts/generate-graphql-types.ts from indexer/schema.graphql, do not edit.\n';
+
+const SCALARS: Record<string, string> = {
+  ID: 'string',
+  String: 'string',
+  Boolean: 'boolean',
+  Int: 'number',
+  BigInt: 'string',
+  BigDecimal: 'string',
+  Bytes: 'string',
+  Int8: 'string',
+  Timestamp: 'string',
+};
+
+// `#` comments right above a definition or field, as a doc comment
+function docComment(node: ASTNode, indent: string): string {
+  const lines: string[] = [];
+  let token: Token | null | undefined = node.loc?.startToken.prev;
+
+  while (token && token.kind === TokenKind.COMMENT && token.line === node.loc!.startToken.line - lines.length - 1) {
+    lines.unshift((token.value ?? '').trim());
+    token = token.prev;
+  }
+
+  if (lines.length === 0) return '';
+  if (lines.length === 1) return `${indent}/** ${lines[0]} */\n`;
+  return `${indent}/**\n${lines.map((line) => `${indent} * ${line}`).join('\n')}\n${indent} */\n`;
+}
+
+function tsType(type: TypeNode, nullable = true): string {
+  if (type.kind === Kind.NON_NULL_TYPE) return tsType(type.type, false);
+
+  const base = type.kind === Kind.LIST_TYPE ? `${tsType(type.type)}[]` : SCALARS[type.name.value] ?? type.name.value;
+  return nullable ? `${base} | null` : base;
+}
+
+function generate(source: string): string {
+  const document = parse(source);
+  const implementations = new Map<string, string[]>();
+  const output: string[] = [];
+
+  for (const definition of document.definitions) {
+    if (definition.kind !== Kind.OBJECT_TYPE_DEFINITION) continue;
+
+    for (const parent of definition.interfaces ?? []) {
+      implementations.set(parent.name.value, [...(implementations.get(parent.name.value) ?? []), definition.name.value]);
+    }
+  }
+
+  for (const definition of document.definitions) {
+    if (definition.kind === Kind.ENUM_TYPE_DEFINITION) {
+      const values = (definition.values ?? []).map((value) => `'${value.name.value}'`);
+      output.push(`${docComment(definition, '')}export type ${definition.name.value} = ${values.join(' | ')};`);
+      continue;
+    }
+
+    if (definition.kind !== Kind.OBJECT_TYPE_DEFINITION && definition.kind !== Kind.INTERFACE_TYPE_DEFINITION) continue;
+
+    const name = definition.name.value;
+    if (name === '_Schema_') continue;
+
+    // interfaces are the union of their implementations, so `__typename`
+    // narrows a query result to the implementation's fields
+    const fields = (definition.fields ?? []).map(
+      (field) => `${docComment(field, '  ')}  ${field.name.value}: ${tsType(field.type)};`
+    );
+    const typename = definition.kind === Kind.OBJECT_TYPE_DEFINITION ? `  __typename: '${name}';\n` : '';
+
+    output.push(`${docComment(definition, '')}export interface ${name}${definition.kind === Kind.INTERFACE_TYPE_DEFINITION ? 'Fields' : ''} {\n${typename}${fields.join('\n')}\n}`);
+
+    if (definition.kind === Kind.INTERFACE_TYPE_DEFINITION) {
+      output.push(`export type ${name} = ${(implementations.get(name) ?? []).join(' | ')};`);
+    }
+  }
+
+  return `${HEADER}\n${output.join('\n\n')}\n`;
+}
+
+writeFileSync(OUTPUT, generate(readFileSync(SCHEMA, 'utf8')));
+console.log(`wrote ${OUTPUT}`);
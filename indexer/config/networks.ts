@@ -0,0 +1,74 @@
+// Deployments indexed by the subgraph, keyed by graph-node network name.
+// `scripts/generate-manifests.ts` turns each deployed network into a
+// `subgraph.<network>.yaml` manifest.
+
+export interface Deployment {
+  address: `0x${string}`
+  // block the contract was deployed in, graph-node scans from here
+  startBlock: number
+}
+
+export interface StandaloneICO extends Deployment {
+  // data source name, must be unique within the manifest
+  name?: string
+}
+
+export interface NetworkConfig {
+  // blocks between two runs of the FlyingICO phase block handler, about an
+  // hour at the network's block time
+  blockHandlerEvery: number
+  // FactoryFlyingICO deployment, null until the factory is live on that
+  // network; the generator skips (and warns about) such networks
+  factory: Deployment | null
+  // FlyingICOs deployed outside the factory, all before `factory.startBlock`
+  // so the factory's template never picks them up a second time
+  flyingIcos?: StandaloneICO[]
+}
+
+export const DEFAULT_NETWORK = "sepolia"
+
+export const networks: Record<string, NetworkConfig> = {
+  mainnet: {
+    blockHandlerEvery: 300, // 12s blocks
+    factory: null,
+  },
+  sepolia: {
+    blockHandlerEvery: 300, // 12s blocks
+    factory: {
+      address: "0x85E999BDA865602232af835ACc2806A5b77a99e2",
+      startBlock: 9799045,
+    },
+    flyingIcos: [
+      {
+        address: "0xB7390A123c1F8F2406EAF7BA86de3289E7B490A1",
+        // deployed alongside the first Sepolia factory (0x4A9403D9…c327, block
+        // 9797827), before the current one, so it is not one of its children
+        startBlock: 9797827,
+      },
+    ],
+  },
+  base: {
+    blockHandlerEvery: 1800, // 2s blocks
+    factory: null,
+  },
+  "base-sepolia": {
+    blockHandlerEvery: 1800, // 2s blocks
+    factory: null,
+  },
+  "arbitrum-one": {
+    blockHandlerEvery: 14400, // 0.25s blocks
+    factory: null,
+  },
+  "arbitrum-sepolia": {
+    blockHandlerEvery: 14400, // 0.25s blocks
+    factory: null,
+  },
+  optimism: {
+    blockHandlerEvery: 1800, // 2s blocks
+    factory: null,
+  },
+  "optimism-sepolia": {
+    blockHandlerEvery: 1800, // 2s blocks
+    factory: null,
+  },
+}
@@ -0,0 +1,37 @@
+import { parseAbi } from "viem"
+
+// The events and calls of abis/*.json that the mappings use, as typed viem ABIs
+
+export const factoryEvents = parseAbi(["event Factory__FlyingIcoCreated(address indexed flyingIco)"])
+
+export const flyingIcoEvents = parseAbi([
+  "event FlyingICO__Initialized(string name, string symbol, uint256 tokenCap, uint256 tokensPerUsd, address[] acceptedAssets, address[] priceFeeds, uint256[] frequencies, address sequencer, address treasury, uint256 vestingStart, uint256 vestingEnd)",
+  "event FlyingICO__Deposited(address indexed user, uint256 positionId, address asset, uint256 assetAmount, uint256 tokensMinted)",
+  "event FlyingICO__Redeemed(address indexed user, uint256 positionId, uint256 tokensBurned, address assetReturned, uint256 assetReturnedAmount)",
+  "event FlyingICO__Claimed(address indexed user, uint256 positionId, uint256 tokensClaimed, address assetReleased, uint256 assetReleasedAmount)",
+  "event FlyingICO__PositionClosed(address indexed user, uint256 positionId)",
+  "event FlyingICO__AssetsTakenToTreasury(address indexed asset, uint256 assetAmount)",
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+])
+
+export const aggregatorEvents = parseAbi([
+  "event AnswerUpdated(int256 indexed current, uint256 indexed roundId, uint256 updatedAt)",
+])
+
+export const erc20Abi = parseAbi([
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+])
+
+export const erc20BytesAbi = parseAbi([
+  "function name() view returns (bytes32)",
+  "function symbol() view returns (bytes32)",
+])
+
+export const chainlinkAggregatorAbi = parseAbi([
+  "function aggregator() view returns (address)",
+  "function decimals() view returns (uint8)",
+  "function description() view returns (string)",
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)",
+])
@@ -0,0 +1,60 @@
+import { DEFAULT_NETWORK, networks } from "../config/networks"
+
+// Local indexer settings, from the environment:
+//
+//   RPC_URL          JSON-RPC endpoint, anvil's by default
+//   FACTORY_ADDRESS  FactoryFlyingICO to follow
+//   FLYING_ICOS      comma-separated standalone FlyingICOs
+//   START_BLOCK      first block to index
+//   NETWORK          take the three above from config/networks.ts instead
+//   DATABASE         SQLite file, ./data/local.sqlite by default
+//   PORT             GraphQL port, 8000 like graph-node's query endpoint
+//   POLL_INTERVAL    milliseconds between polls for new blocks
+//   BATCH_SIZE       blocks per eth_getLogs request
+
+export interface Config {
+  rpcUrl: string
+  factory: string | null
+  flyingIcos: string[]
+  startBlock: bigint
+  database: string
+  port: number
+  pollInterval: number
+  batchSize: bigint
+}
+
+function list(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter((item) => item.length > 0)
+}
+
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): Config {
+  let network = env.NETWORK ? networks[env.NETWORK] : undefined
+
+  if (env.NETWORK && !network) {
+    throw new Error(`unknown network "${env.NETWORK}", expected one of: ${Object.keys(networks).join(", ")}`)
+  }
+
+  let factory = env.FACTORY_ADDRESS?.toLowerCase() ?? network?.factory?.address.toLowerCase() ?? null
+  let flyingIcos = env.FLYING_ICOS ? list(env.FLYING_ICOS) : (network?.flyingIcos ?? []).map((ico) => ico.address.toLowerCase())
+
+  if (!factory && flyingIcos.length === 0) {
+    throw new Error(`set FACTORY_ADDRESS or FLYING_ICOS, or NETWORK (e.g. ${DEFAULT_NETWORK})`)
+  }
+
+  let startBlocks = [network?.factory?.startBlock, ...(network?.flyingIcos ?? []).map((ico) => ico.startBlock)]
+  let configured = startBlocks.filter((block): block is number => block !== undefined)
+
+  return {
+    rpcUrl: env.RPC_URL ?? "http://127.0.0.1:8545",
+    factory,
+    flyingIcos,
+    startBlock: BigInt(env.START_BLOCK ?? (configured.length > 0 ? Math.min(...configured) : 0)),
+    database: env.DATABASE ?? "data/local.sqlite",
+    port: Number(env.PORT ?? 8000),
+    pollInterval: Number(env.POLL_INTERVAL ?? 1000),
+    batchSize: BigInt(env.BATCH_SIZE ?? 2000),
+  }
+}
@@ -0,0 +1,62 @@
+import { Abi, ContractFunctionArgs, ContractFunctionName, ContractFunctionReturnType, Hex, PublicClient } from "viem"
+import { Store } from "./store"
+
+export type DataSourceKind = "FactoryFlyingICO" | "FlyingICO" | "ChainlinkAggregator"
+
+export interface Block {
+  number: bigint
+  timestamp: bigint
+  hash: string
+}
+
+// ethereum.Event, with the decoded log arguments as `params`
+export interface Event<Params> {
+  address: string
+  logIndex: bigint
+  block: Block
+  transaction: {
+    hash: string
+    from: string
+    input: Hex
+  }
+  params: Params
+}
+
+// What the mappings get instead of graph-ts' globals: the entity store,
+// eth_calls pinned to the block being indexed, and data source templates.
+export class Context {
+  constructor(
+    readonly store: Store,
+    private client: PublicClient,
+    private onDataSource: (kind: DataSourceKind, address: string, block: bigint) => void
+  ) {}
+
+  createDataSource(kind: DataSourceKind, address: string, block: Block): void {
+    this.onDataSource(kind, address.toLowerCase(), block.number)
+  }
+
+  // Like a bound contract's try_* call: null when the call reverts
+  async tryCall<
+    const abi extends Abi,
+    name extends ContractFunctionName<abi, "view">,
+    const args extends ContractFunctionArgs<abi, "view", name>,
+  >(
+    address: string,
+    abi: abi,
+    functionName: name,
+    block: Block,
+    args?: args
+  ): Promise<ContractFunctionReturnType<abi, "view", name, args> | null> {
+    try {
+      return (await this.client.readContract({
+        address: address as Hex,
+        abi,
+        functionName,
+        args,
+        blockNumber: block.number,
+      } as never)) as ContractFunctionReturnType<abi, "view", name, args>
+    } catch {
+      return null
+    }
+  }
+}
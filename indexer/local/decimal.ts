@@ -0,0 +1,69 @@
+// Fixed-point stand-in for graph-ts' BigDecimal: values are stored as bigints
+// scaled by 10^18 and truncated past that. Plenty for USD values and prices
+// on a development chain; graph-node keeps 34 significant digits instead.
+
+const SCALE = 18
+const ONE = 10n ** BigInt(SCALE)
+
+export class BigDecimal {
+  private constructor(readonly scaled: bigint) {}
+
+  static zero(): BigDecimal {
+    return new BigDecimal(0n)
+  }
+
+  static fromBigInt(value: bigint): BigDecimal {
+    return new BigDecimal(value * ONE)
+  }
+
+  static fromString(value: string): BigDecimal {
+    let negative = value.startsWith("-")
+    let [whole, fraction = ""] = (negative ? value.slice(1) : value).split(".")
+    let scaled = BigInt(whole || "0") * ONE + BigInt(fraction.slice(0, SCALE).padEnd(SCALE, "0"))
+
+    return new BigDecimal(negative ? -scaled : scaled)
+  }
+
+  plus(other: BigDecimal): BigDecimal {
+    return new BigDecimal(this.scaled + other.scaled)
+  }
+
+  minus(other: BigDecimal): BigDecimal {
+    return new BigDecimal(this.scaled - other.scaled)
+  }
+
+  times(other: BigDecimal): BigDecimal {
+    return new BigDecimal((this.scaled * other.scaled) / ONE)
+  }
+
+  div(other: BigDecimal): BigDecimal {
+    return new BigDecimal((this.scaled * ONE) / other.scaled)
+  }
+
+  equals(other: BigDecimal): boolean {
+    return this.scaled === other.scaled
+  }
+
+  compare(other: BigDecimal): number {
+    return this.scaled === other.scaled ? 0 : this.scaled < other.scaled ? -1 : 1
+  }
+
+  // like graph-node, without trailing zeros: "2000", "0.5"
+  toString(): string {
+    let negative = this.scaled < 0n
+    let abs = negative ? -this.scaled : this.scaled
+    let whole = (abs / ONE).toString()
+    let fraction = (abs % ONE).toString().padStart(SCALE, "0").replace(/0+$/, "")
+
+    return (negative ? "-" : "") + whole + (fraction ? "." + fraction : "")
+  }
+
+  toJSON(): { $decimal: string } {
+    return { $decimal: this.toString() }
+  }
+}
+
+// Converts a raw integer amount into its decimal representation
+export function toDecimal(value: bigint, decimals: number): BigDecimal {
+  return BigDecimal.fromBigInt(value).div(BigDecimal.fromBigInt(10n ** BigInt(decimals)))
+}
@@ -0,0 +1,390 @@
+// Stored shapes of the schema.graphql entities, without their @derivedFrom
+// fields. BigInt is a bigint, BigDecimal a BigDecimal, Bytes a lowercase hex
+// string, and references hold the referenced entity's id.
+
+import { BigDecimal } from "./decimal"
+import { Entity } from "./store"
+
+export interface FactoryFlyingICO extends Entity {
+  icoCount: bigint
+  backingUsd: BigDecimal
+  availableUsd: BigDecimal
+  tvlUsd: BigDecimal
+  blockNumber: bigint
+  blockTimestamp: bigint
+  transactionHash: string
+}
+
+export interface FlyingICO extends Entity {
+  factory: string | null
+  name: string
+  symbol: string
+  token: string
+  creator: string | null
+  creationBlock: bigint
+  creationTransaction: string
+  creatorAddress: string
+  assetSymbols: string
+  treasury: string
+  sequencer: string
+  vestingStart: bigint
+  vestingEnd: bigint
+  tokenCap: bigint
+  tokensPerUsd: bigint
+  tokenCapAmount: bigint
+  capUtilizationBps: number
+  highestMilestoneBps: number
+  phase: string
+  phaseChangedAt: bigint
+  totalSupply: bigint
+  tokensRedeemed: bigint
+  tokensClaimed: bigint
+  lockedSupply: bigint
+  circulatingSupply: bigint
+  holderCount: bigint
+  backingUsd: BigDecimal
+  availableUsd: BigDecimal
+  tvlUsd: BigDecimal
+  positionCount: bigint
+  activePositionCount: bigint
+  createdAt: bigint
+  updatedAt: bigint
+}
+
+export interface FlyingPosition extends Entity {
+  ico: string
+  positionId: bigint
+  user: string
+  account: string
+  assetAmount: bigint
+  tokenAmount: bigint
+  vestingAmount: bigint
+  asset: string
+  initialAssetAmount: bigint
+  initialTokenAmount: bigint
+  depositUsdValue: BigDecimal
+  assetPriceUsd: BigDecimal
+  redeemedTokens: bigint
+  redeemedAssets: bigint
+  claimedTokens: bigint
+  claimedAssets: bigint
+  isClosed: boolean
+  closedAt: bigint | null
+  createdAt: bigint
+  updatedAt: bigint
+}
+
+export interface AcceptedAsset extends Entity {
+  ico: string
+  address: string
+  token: string
+  symbol: string
+  decimals: bigint
+  priceFeed: string | null
+  depositedAssets: bigint
+  redeemedAssets: bigint
+  releasedAssets: bigint
+  withdrawnAssets: bigint
+  depositedUsd: BigDecimal
+  lastPriceUsd: BigDecimal
+  totalAssets: bigint
+  backingAssets: bigint
+  availableAssets: bigint
+  backingUsd: BigDecimal
+  availableUsd: BigDecimal
+  totalUsd: BigDecimal
+  createdAt: bigint
+  updatedAt: bigint
+}
+
+export interface ActivityEvent extends Entity {
+  ico: string
+  sender: string
+  asset: string
+  blockNumber: bigint
+  timestamp: bigint
+  transactionHash: string
+  logIndex: bigint
+}
+
+export interface Deposit extends ActivityEvent {
+  position: string
+  assetAmount: bigint
+  tokensMinted: bigint
+  usdValue: BigDecimal
+  assetPriceUsd: BigDecimal
+  tokensPerAsset: BigDecimal
+  referrer: string | null
+}
+
+export interface Redemption extends ActivityEvent {
+  position: string
+  tokensBurned: bigint
+  assetAmount: bigint
+}
+
+export interface Claim extends ActivityEvent {
+  position: string
+  tokensClaimed: bigint
+  assetAmount: bigint
+}
+
+export interface TreasuryWithdrawal extends ActivityEvent {
+  treasury: string
+  assetAmount: bigint
+  usdValue: BigDecimal
+}
+
+export interface PositionClosure extends ActivityEvent {
+  position: string
+}
+
+export interface ICOData extends Entity {
+  ico: string
+  openTotalSupply: bigint
+  closeTotalSupply: bigint
+  openLockedTokens: bigint
+  closeLockedTokens: bigint
+  openPositionCount: bigint
+  closePositionCount: bigint
+  openActivePositionCount: bigint
+  closeActivePositionCount: bigint
+  openBackingUsd: BigDecimal
+  closeBackingUsd: BigDecimal
+  depositCount: bigint
+  tokensMinted: bigint
+  redemptionCount: bigint
+  tokensRedeemed: bigint
+  claimCount: bigint
+  tokensClaimed: bigint
+  treasuryWithdrawalCount: bigint
+  updatedAt: bigint
+}
+
+export interface FlyingICOHourData extends ICOData {
+  periodStartUnix: number
+}
+
+export interface FlyingICODayData extends ICOData {
+  date: number
+}
+
+export interface AcceptedAssetDayData extends Entity {
+  date: number
+  asset: string
+  ico: string
+  depositedAssets: bigint
+  redeemedAssets: bigint
+  releasedAssets: bigint
+  withdrawnAssets: bigint
+  openBackingAssets: bigint
+  closeBackingAssets: bigint
+  openAvailableAssets: bigint
+  closeAvailableAssets: bigint
+  closeTotalAssets: bigint
+  updatedAt: bigint
+}
+
+interface AccountTotals extends Entity {
+  positionCount: bigint
+  activePositionCount: bigint
+  lockedTokens: bigint
+  claimedTokens: bigint
+  redeemedTokens: bigint
+  firstActivityAt: bigint
+  lastActivityAt: bigint
+}
+
+export interface Account extends AccountTotals {
+  address: string
+  icoCount: bigint
+}
+
+export interface AccountICO extends AccountTotals {
+  account: string
+  ico: string
+}
+
+export interface AccountAsset extends Entity {
+  account: string
+  asset: string
+  depositedAssets: bigint
+  redeemedAssets: bigint
+}
+
+export interface AccountICOAsset extends Entity {
+  accountICO: string
+  acceptedAsset: string
+  asset: string
+  depositedAssets: bigint
+  redeemedAssets: bigint
+}
+
+export interface TokenHolder extends Entity {
+  ico: string
+  address: string
+  balance: bigint
+  transferCount: bigint
+  createdAt: bigint
+  updatedAt: bigint
+}
+
+export interface PriceFeed extends Entity {
+  ico: string
+  asset: string
+  address: string
+  oracle: string
+  decimals: number
+  frequency: bigint
+  staleAt: bigint
+  sequencer: string
+  sequencerGracePeriod: bigint
+  createdAt: bigint
+  updatedAt: bigint
+}
+
+export interface Oracle extends Entity {
+  address: string
+  aggregator: string
+  decimals: number
+  description: string
+  latestAnswer: bigint
+  price: BigDecimal
+  roundId: bigint
+  updatedAt: bigint
+}
+
+export interface Protocol extends Entity {
+  icoCount: bigint
+  userCount: bigint
+  positionCount: bigint
+  activePositionCount: bigint
+  depositCount: bigint
+  redemptionCount: bigint
+  claimCount: bigint
+  treasuryWithdrawalCount: bigint
+  tokensMinted: bigint
+  tokensRedeemed: bigint
+  tokensClaimed: bigint
+  depositedUsd: BigDecimal
+  backingUsd: BigDecimal
+  availableUsd: BigDecimal
+  tvlUsd: BigDecimal
+  updatedAt: bigint
+}
+
+export interface ProtocolAsset extends Entity {
+  protocol: string
+  address: string
+  token: string
+  symbol: string
+  decimals: bigint
+  icoCount: bigint
+  depositedAssets: bigint
+  redeemedAssets: bigint
+  releasedAssets: bigint
+  withdrawnAssets: bigint
+  backingAssets: bigint
+  availableAssets: bigint
+  depositedUsd: BigDecimal
+  backingUsd: BigDecimal
+  availableUsd: BigDecimal
+  totalUsd: BigDecimal
+  updatedAt: bigint
+}
+
+export interface PhaseTransition extends Entity {
+  ico: string
+  phase: string
+  previousPhase: string
+  timestamp: bigint
+  observedAt: bigint
+  blockNumber: bigint
+  lockedTokens: bigint
+  redeemableTokens: bigint
+  backingUsd: BigDecimal
+}
+
+export interface Token extends Entity {
+  address: string
+  name: string
+  symbol: string
+  decimals: bigint
+}
+
+export interface RaiseMilestone extends Entity {
+  ico: string
+  thresholdBps: number
+  totalSupply: bigint
+  capUtilizationBps: number
+  positionCount: bigint
+  blockNumber: bigint
+  timestamp: bigint
+  transactionHash: string
+}
+
+export interface Creator extends Entity {
+  address: string
+  icoCount: bigint
+  firstLaunchAt: bigint
+  lastLaunchAt: bigint
+}
+
+export interface Treasury extends Entity {
+  address: string
+  icoCount: bigint
+  withdrawalCount: bigint
+  withdrawnUsd: BigDecimal
+  availableUsd: BigDecimal
+  createdAt: bigint
+  updatedAt: bigint
+}
+
+export interface TreasuryAsset extends Entity {
+  treasury: string
+  address: string
+  token: string
+  symbol: string
+  decimals: bigint
+  releasedAssets: bigint
+  withdrawnAssets: bigint
+  availableAssets: bigint
+  withdrawalCount: bigint
+  withdrawnUsd: BigDecimal
+  availableUsd: BigDecimal
+  updatedAt: bigint
+}
+
+export interface TreasuryAssetDayData extends Entity {
+  date: number
+  treasury: string
+  treasuryAsset: string
+  releasedAssets: bigint
+  withdrawnAssets: bigint
+  withdrawalCount: bigint
+  withdrawnUsd: BigDecimal
+  closeAvailableAssets: bigint
+  updatedAt: bigint
+}
+
+export interface Referrer extends Entity {
+  depositCount: bigint
+  tokensMinted: bigint
+  depositedUsd: BigDecimal
+  firstReferralAt: bigint
+  lastReferralAt: bigint
+}
+
+export interface Referral extends Entity {
+  referrer: string
+  deposit: string
+  ico: string
+  user: string
+  asset: string
+  assetAmount: bigint
+  tokensMinted: bigint
+  usdValue: BigDecimal
+  blockNumber: bigint
+  timestamp: bigint
+  transactionHash: string
+}
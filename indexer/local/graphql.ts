@@ -0,0 +1,465 @@
+import {
+  DocumentNode,
+  GraphQLFieldResolver,
+  GraphQLSchema,
+  Kind,
+  TypeNode,
+  buildSchema,
+  parse,
+  print,
+  valueFromASTUntyped,
+} from "graphql"
+import { BigDecimal } from "./decimal"
+import { IndexingStatus } from "./sync"
+import { Entity, Store, Value } from "./store"
+
+// Serves the subset of graph-node's query API the frontend relies on, derived
+// from schema.graphql: `entity(id)` and `entities(first, skip, orderBy,
+// orderDirection, where)` per entity type and interface, collection arguments
+// on list fields, the @fulltext queries, and `_meta`. Filters support the
+// plain, `_not`, `_gt`, `_lt`, `_gte`, `_lte`, `_in`, `_not_in`, `_contains`,
+// `_not_contains`, `_contains_nocase`, `_starts_with` and `_ends_with`
+// operators plus `and`/`or`; nested `field_` filters and time travel
+// (`block`) are not supported. Queries scan the committed entities in memory.
+
+const SCALARS = ["BigInt", "BigDecimal", "Bytes", "Int8", "Timestamp"]
+const MAX_FIRST = 1000
+
+interface FieldModel {
+  name: string
+  base: string
+  list: boolean
+  derivedFrom: string | null
+  // the field's type as written in schema.graphql
+  sdl: string
+}
+
+interface TypeModel {
+  name: string
+  kind: "type" | "interface"
+  interfaces: string[]
+  fields: Map<string, FieldModel>
+  // the type itself for entities, the implementing entities for interfaces
+  entities: string[]
+}
+
+interface FulltextModel {
+  name: string
+  entity: string
+  fields: string[]
+}
+
+interface Model {
+  types: Map<string, TypeModel>
+  fulltext: FulltextModel[]
+  enums: string[]
+}
+
+interface Args {
+  id?: string
+  text?: string
+  first?: number
+  skip?: number
+  orderBy?: string
+  orderDirection?: "asc" | "desc"
+  where?: Filter
+}
+
+type Filter = Record<string, unknown> & { and?: Filter[]; or?: Filter[] }
+
+type Loaded = Entity & { __typename: string }
+
+export interface QueryContext {
+  store: Store
+  status: IndexingStatus
+}
+
+function lowerFirst(name: string): string {
+  return name[0].toLowerCase() + name.slice(1)
+}
+
+// graph-node's collection field names: flyingICOs, treasuries, activityEvents
+function plural(name: string): string {
+  let camel = lowerFirst(name)
+  if (/[^aeiou]y$/.test(camel)) return camel.slice(0, -1) + "ies"
+  if (/(s|x|z|ch|sh)$/.test(camel)) return camel + "es"
+  return camel + "s"
+}
+
+function unwrap(type: TypeNode): { base: string; list: boolean } {
+  if (type.kind === Kind.NON_NULL_TYPE) return unwrap(type.type)
+  if (type.kind === Kind.LIST_TYPE) return { base: unwrap(type.type).base, list: true }
+  return { base: type.name.value, list: false }
+}
+
+function buildModel(document: DocumentNode): Model {
+  let types = new Map<string, TypeModel>()
+  let fulltext: FulltextModel[] = []
+  let enums: string[] = []
+  let implementations = new Map<string, string[]>()
+
+  for (let definition of document.definitions) {
+    if (definition.kind === Kind.ENUM_TYPE_DEFINITION) {
+      enums.push(definition.name.value)
+      continue
+    }
+
+    if (definition.kind === Kind.OBJECT_TYPE_DEFINITION && definition.name.value === "_Schema_") {
+      for (let directive of definition.directives ?? []) {
+        let args = Object.fromEntries(
+          (directive.arguments ?? []).map((arg) => [arg.name.value, valueFromASTUntyped(arg.value)])
+        ) as { name: string; include: { entity: string; fields: { name: string }[] }[] }
+
+        for (let include of args.include) {
+          fulltext.push({ name: args.name, entity: include.entity, fields: include.fields.map((f) => f.name) })
+        }
+      }
+      continue
+    }
+
+    if (definition.kind !== Kind.OBJECT_TYPE_DEFINITION && definition.kind !== Kind.INTERFACE_TYPE_DEFINITION) {
+      continue
+    }
+
+    let name = definition.name.value
+    let fields = new Map<string, FieldModel>()
+
+    for (let field of definition.fields ?? []) {
+      let derived = field.directives?.find((d) => d.name.value === "derivedFrom")
+      let derivedArg = derived?.arguments?.find((arg) => arg.name.value === "field")
+
+      fields.set(field.name.value, {
+        name: field.name.value,
+        ...unwrap(field.type),
+        derivedFrom: derivedArg ? (valueFromASTUntyped(derivedArg.value) as string) : null,
+        sdl: print(field.type),
+      })
+    }
+
+    let isEntity = definition.kind === Kind.OBJECT_TYPE_DEFINITION
+    let interfaces = (definition.interfaces ?? []).map((parent) => parent.name.value)
+
+    if (isEntity) {
+      for (let parent of interfaces) {
+        implementations.set(parent, [...(implementations.get(parent) ?? []), name])
+      }
+    }
+
+    types.set(name, {
+      name,
+      kind: isEntity ? "type" : "interface",
+      interfaces,
+      fields,
+      entities: isEntity ? [name] : [],
+    })
+  }
+
+  for (let [name, entities] of implementations) {
+    let type = types.get(name)
+    if (type) type.entities = entities
+  }
+
+  return { types, fulltext, enums }
+}
+
+function collectionArgs(type: string): string {
+  return `(skip: Int = 0, first: Int = 100, orderBy: ${type}_orderBy, orderDirection: OrderDirection, where: ${type}_filter)`
+}
+
+function filterInput(type: TypeModel, model: Model): string {
+  let lines: string[] = []
+
+  for (let field of type.fields.values()) {
+    if (field.derivedFrom) continue
+
+    let isReference = model.types.has(field.base)
+    let base = isReference ? "String" : field.base
+
+    if (field.list) {
+      lines.push(`${field.name}: [${base}!]`, `${field.name}_contains: [${base}!]`, `${field.name}_not_contains: [${base}!]`)
+      continue
+    }
+
+    lines.push(`${field.name}: ${base}`, `${field.name}_not: ${base}`, `${field.name}_in: [${base}!]`, `${field.name}_not_in: [${base}!]`)
+
+    if (base !== "Boolean" && !model.enums.includes(base)) {
+      for (let op of ["gt", "lt", "gte", "lte"]) lines.push(`${field.name}_${op}: ${base}`)
+    }
+
+    if (base === "String" || base === "Bytes" || base === "ID") {
+      lines.push(`${field.name}_contains: ${base}`, `${field.name}_not_contains: ${base}`)
+    }
+
+    if (base === "String") {
+      for (let op of ["contains_nocase", "starts_with", "ends_with"]) lines.push(`${field.name}_${op}: String`)
+    }
+  }
+
+  lines.push(`and: [${type.name}_filter]`, `or: [${type.name}_filter]`)
+
+  return `input ${type.name}_filter {\n${lines.map((line) => "  " + line).join("\n")}\n}`
+}
+
+function orderByEnum(type: TypeModel): string {
+  let values = [...type.fields.values()].filter((field) => !field.derivedFrom && !field.list).map((field) => field.name)
+  return `enum ${type.name}_orderBy {\n  ${values.join("\n  ")}\n}`
+}
+
+// List fields of entities take the same arguments as the root collections
+function typeDefinition(type: TypeModel, model: Model): string {
+  let implementsClause = type.interfaces.length > 0 ? ` implements ${type.interfaces.join(" & ")}` : ""
+  let fields = [...type.fields.values()].map((field) => {
+    let args = field.list && model.types.has(field.base) ? collectionArgs(field.base) : ""
+    return `  ${field.name}${args}: ${field.sdl}`
+  })
+
+  return `${type.kind} ${type.name}${implementsClause} {\n${fields.join("\n")}\n}`
+}
+
+function buildSDL(document: DocumentNode, model: Model): string {
+  let enums = document.definitions.filter((d) => d.kind === Kind.ENUM_TYPE_DEFINITION).map((d) => print(d))
+  let queries: string[] = []
+  let inputs: string[] = []
+
+  for (let type of model.types.values()) {
+    queries.push(`${lowerFirst(type.name)}(id: ID!): ${type.name}`)
+    queries.push(`${plural(type.name)}${collectionArgs(type.name)}: [${type.name}!]!`)
+    inputs.push(filterInput(type, model), orderByEnum(type))
+  }
+
+  for (let search of model.fulltext) {
+    queries.push(
+      `${search.name}(text: String!, first: Int = 100, skip: Int = 0, where: ${search.entity}_filter): [${search.entity}!]!`
+    )
+  }
+
+  queries.push("_meta: _Meta_")
+
+  return [
+    ...SCALARS.map((scalar) => `scalar ${scalar}`),
+    "enum OrderDirection {\n  asc\n  desc\n}",
+    "type _Block_ {\n  hash: Bytes\n  number: Int!\n  timestamp: Int\n}",
+    "type _Meta_ {\n  block: _Block_!\n  deployment: String!\n  hasIndexingErrors: Boolean!\n}",
+    ...enums,
+    ...[...model.types.values()].map((type) => typeDefinition(type, model)),
+    ...inputs,
+    `type Query {\n${queries.map((query) => "  " + query).join("\n")}\n}`,
+  ].join("\n\n")
+}
+
+function coerce(base: string, value: unknown): Value {
+  if (value === null || value === undefined) return null
+  if (base === "BigInt" || base === "Int8" || base === "Timestamp") return BigInt(value as string)
+  if (base === "BigDecimal") return BigDecimal.fromString(String(value))
+  if (base === "Bytes" || base === "ID") return String(value).toLowerCase()
+  return value as Value
+}
+
+function compare(a: Value | undefined, b: Value | undefined): number {
+  if (a === b) return 0
+  if (a === null || a === undefined) return 1
+  if (b === null || b === undefined) return -1
+  if (a instanceof BigDecimal && b instanceof BigDecimal) return a.compare(b)
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+function equals(a: Value | undefined, b: Value): boolean {
+  return compare(a, b) === 0 && (a === null) === (b === null)
+}
+
+function matches(entity: Entity, where: Filter | undefined, type: TypeModel, model: Model): boolean {
+  if (!where) return true
+
+  for (let [key, expected] of Object.entries(where)) {
+    if (key === "and") {
+      if (!(expected as Filter[]).every((filter) => matches(entity, filter, type, model))) return false
+      continue
+    }
+    if (key === "or") {
+      if (!(expected as Filter[]).some((filter) => matches(entity, filter, type, model))) return false
+      continue
+    }
+
+    let split = type.fields.has(key) ? key.length : key.indexOf("_")
+    let field = type.fields.get(key.slice(0, split))
+    let op = key.slice(split + 1)
+    if (!field) throw new Error(`unknown filter "${key}" on ${type.name}`)
+
+    let actual = entity[field.name]
+    // references hold ids
+    let base = model.types.has(field.base) ? "ID" : field.base
+    let value = (v: unknown) => coerce(base, v)
+
+    let ok: boolean
+    switch (op) {
+      case "":
+        ok = field.list
+          ? JSON.stringify(actual) === JSON.stringify((expected as unknown[]).map(value))
+          : equals(actual, value(expected))
+        break
+      case "not":
+        ok = !equals(actual, value(expected))
+        break
+      case "gt":
+        ok = compare(actual, value(expected)) > 0 && actual !== null
+        break
+      case "lt":
+        ok = compare(actual, value(expected)) < 0 && actual !== null
+        break
+      case "gte":
+        ok = compare(actual, value(expected)) >= 0 && actual !== null
+        break
+      case "lte":
+        ok = compare(actual, value(expected)) <= 0 && actual !== null
+        break
+      case "in":
+        ok = (expected as unknown[]).some((v) => equals(actual, value(v)))
+        break
+      case "not_in":
+        ok = !(expected as unknown[]).some((v) => equals(actual, value(v)))
+        break
+      case "contains":
+      case "not_contains": {
+        let contained = Array.isArray(actual)
+          ? (expected as unknown[]).every((v) => (actual as string[]).includes(value(v) as string))
+          : typeof actual === "string" && actual.includes(String(value(expected)))
+        ok = op === "contains" ? contained : !contained
+        break
+      }
+      case "contains_nocase":
+        ok = typeof actual === "string" && actual.toLowerCase().includes(String(expected).toLowerCase())
+        break
+      case "starts_with":
+        ok = typeof actual === "string" && actual.startsWith(String(expected))
+        break
+      case "ends_with":
+        ok = typeof actual === "string" && actual.endsWith(String(expected))
+        break
+      default:
+        throw new Error(`unknown filter "${key}" on ${type.name}`)
+    }
+
+    if (!ok) return false
+  }
+
+  return true
+}
+
+function collection(entities: Loaded[], args: Args, type: TypeModel, model: Model): Loaded[] {
+  let first = args.first ?? 100
+  let skip = args.skip ?? 0
+  if (first > MAX_FIRST) throw new Error(`first must be at most ${MAX_FIRST}`)
+
+  let orderBy = args.orderBy ?? "id"
+  let direction = args.orderDirection === "desc" ? -1 : 1
+
+  return entities
+    .filter((entity) => matches(entity, args.where, type, model))
+    .sort((a, b) => direction * (compare(a[orderBy], b[orderBy]) || compare(a.id, b.id)))
+    .slice(skip, skip + first)
+}
+
+function typed(entity: Entity, typename: string): Loaded {
+  return Object.assign(entity, { __typename: typename })
+}
+
+// Postgres-style query text: `fly:* & usdc`, `a | b`; every term matches a
+// word prefix here, ranking is not emulated
+function searchMatches(entity: Entity, search: FulltextModel, text: string): boolean {
+  let words = search.fields.flatMap((field) => String(entity[field] ?? "").toLowerCase().split(/\s+/))
+
+  return text
+    .toLowerCase()
+    .split("|")
+    .some((alternative) =>
+      alternative
+        .split(/[&\s]+/)
+        .map((term) => term.replace(/:\*$/, "").trim())
+        .filter((term) => term.length > 0)
+        .every((term) => words.some((word) => word.startsWith(term)))
+    )
+}
+
+export function createSchema(source: string): { schema: GraphQLSchema; fieldResolver: GraphQLFieldResolver<unknown, QueryContext> } {
+  let document = parse(source)
+  let model = buildModel(document)
+  let schema = buildSchema(buildSDL(document, model))
+
+  let loadOne = (store: Store, type: TypeModel, id: string): Loaded | null => {
+    for (let entity of type.entities) {
+      let loaded = store.load(entity, id, false)
+      if (loaded) return typed(loaded, entity)
+    }
+    return null
+  }
+
+  let loadAll = (store: Store, type: TypeModel): Loaded[] =>
+    type.entities.flatMap((entity) => store.all(entity).map((loaded) => typed(loaded, entity)))
+
+  let resolveRoot = (field: string, args: Args, { store, status }: QueryContext): unknown => {
+    if (field === "_meta") {
+      return {
+        block: status.block
+          ? { hash: status.block.hash, number: Number(status.block.number), timestamp: Number(status.block.timestamp) }
+          : { hash: null, number: 0, timestamp: null },
+        deployment: "local",
+        hasIndexingErrors: status.error !== null,
+      }
+    }
+
+    let search = model.fulltext.find((fulltext) => fulltext.name === field)
+    if (search) {
+      let type = model.types.get(search.entity)!
+      let hits = loadAll(store, type).filter((entity) => searchMatches(entity, search!, args.text ?? ""))
+      return collection(hits, { ...args, orderBy: undefined }, type, model)
+    }
+
+    for (let type of model.types.values()) {
+      if (field === lowerFirst(type.name)) {
+        // the mappings only write lowercase ids, checksummed addresses still match
+        return loadOne(store, type, args.id!.toLowerCase())
+      }
+      if (field === plural(type.name)) {
+        return collection(loadAll(store, type), args, type, model)
+      }
+    }
+
+    return null
+  }
+
+  let fieldResolver: GraphQLFieldResolver<unknown, QueryContext> = (source, args, context, info) => {
+    let parent = info.parentType.name
+    let name = info.fieldName
+
+    if (parent === "Query") return resolveRoot(name, args as Args, context)
+
+    let value = (source as Record<string, unknown>)[name]
+    let type = model.types.get(parent)
+    let field = type?.fields.get(name)
+    if (!field) return value
+
+    let target = model.types.get(field.base)
+    if (target) {
+      if (field.derivedFrom) {
+        let related = target.entities.flatMap((entity) =>
+          context.store.loadRelated(entity, field!.derivedFrom!, (source as Entity).id, false).map((e) => typed(e, entity))
+        )
+        return collection(related, args as Args, target, model)
+      }
+
+      if (field.list) {
+        let loaded = ((value as string[] | null) ?? []).map((id) => loadOne(context.store, target!, id))
+        return collection(loaded.filter((entity): entity is Loaded => entity !== null), args as Args, target, model)
+      }
+
+      return typeof value === "string" ? loadOne(context.store, target, value) : null
+    }
+
+    // BigInt and BigDecimal are strings on the wire, like graph-node
+    if (typeof value === "bigint" || value instanceof BigDecimal) return value.toString()
+    if (Array.isArray(value)) return value.map((item) => (typeof item === "bigint" ? item.toString() : item))
+    return value
+  }
+
+  return { schema, fieldResolver }
+}
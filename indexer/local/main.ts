@@ -0,0 +1,36 @@
+// Standalone indexer for local development: follows the factory and FlyingICOs
+// over JSON-RPC, keeps the schema.graphql entities in SQLite and serves them
+// over a graph-node compatible GraphQL endpoint, no graph-node, IPFS or
+// Postgres needed.
+//
+//   FACTORY_ADDRESS=0x... yarn local
+//
+// See local/config.ts for the settings.
+
+import { readFileSync } from "node:fs"
+import { join } from "node:path"
+import { createPublicClient, http } from "viem"
+import { loadConfig } from "./config"
+import { serve } from "./server"
+import { Store } from "./store"
+import { Indexer } from "./sync"
+
+async function main(): Promise<void> {
+  let config = loadConfig()
+  let client = createPublicClient({ transport: http(config.rpcUrl) })
+  let store = new Store(config.database)
+  let indexer = new Indexer(client, store, config)
+
+  let schema = readFileSync(join(__dirname, "..", "schema.graphql"), "utf8")
+  serve(schema, { store, status: indexer.status }, config.port)
+
+  console.log(`indexing ${config.rpcUrl} into ${config.database}`)
+  console.log(`GraphQL endpoint: http://localhost:${config.port}/subgraphs/name/flying-ico`)
+
+  await indexer.run()
+}
+
+main().catch((error: unknown) => {
+  console.error(error)
+  process.exit(1)
+})
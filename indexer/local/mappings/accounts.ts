@@ -0,0 +1,179 @@
+import { Event } from "../context"
+import { Account, AccountAsset, AccountICO, AccountICOAsset } from "../entities"
+import { Store } from "../store"
+import { recordProtocolUser } from "./protocol"
+
+// A wallet is tracked both protocol-wide (Account, AccountAsset) and per ICO
+// (AccountICO, AccountICOAsset), see src/accounts.ts.
+
+function getAccount(store: Store, user: string, event: Event<unknown>): Account {
+  let a = store.load<Account>("Account", user)
+
+  if (!a) {
+    a = {
+      id: user,
+      address: user,
+      icoCount: 0n,
+      positionCount: 0n,
+      activePositionCount: 0n,
+      lockedTokens: 0n,
+      claimedTokens: 0n,
+      redeemedTokens: 0n,
+      firstActivityAt: event.block.timestamp,
+      lastActivityAt: event.block.timestamp,
+    }
+
+    recordProtocolUser(store, event.block.timestamp)
+  }
+
+  a.lastActivityAt = event.block.timestamp
+
+  return a
+}
+
+function getAccountICO(store: Store, account: Account, icoId: string, event: Event<unknown>): AccountICO {
+  let id = account.id + "-" + icoId
+  let a = store.load<AccountICO>("AccountICO", id)
+
+  if (!a) {
+    a = {
+      id,
+      account: account.id,
+      ico: icoId,
+      positionCount: 0n,
+      activePositionCount: 0n,
+      lockedTokens: 0n,
+      claimedTokens: 0n,
+      redeemedTokens: 0n,
+      firstActivityAt: event.block.timestamp,
+      lastActivityAt: event.block.timestamp,
+    }
+
+    account.icoCount += 1n
+  }
+
+  a.lastActivityAt = event.block.timestamp
+
+  return a
+}
+
+function getAccountAsset(store: Store, account: Account, asset: string): AccountAsset {
+  let id = account.id + "-" + asset
+
+  return (
+    store.load<AccountAsset>("AccountAsset", id) ?? {
+      id,
+      account: account.id,
+      asset,
+      depositedAssets: 0n,
+      redeemedAssets: 0n,
+    }
+  )
+}
+
+function getAccountICOAsset(store: Store, accountICO: AccountICO, asset: string): AccountICOAsset {
+  let id = accountICO.id + "-" + asset
+
+  return (
+    store.load<AccountICOAsset>("AccountICOAsset", id) ?? {
+      id,
+      accountICO: accountICO.id,
+      acceptedAsset: accountICO.ico + "-" + asset,
+      asset,
+      depositedAssets: 0n,
+      redeemedAssets: 0n,
+    }
+  )
+}
+
+function saveAccounts(store: Store, account: Account, accountICO: AccountICO): void {
+  store.save("Account", account)
+  store.save("AccountICO", accountICO)
+}
+
+export function recordAccountDeposit(
+  store: Store,
+  event: Event<unknown>,
+  icoId: string,
+  user: string,
+  asset: string,
+  assetAmount: bigint,
+  tokensMinted: bigint
+): void {
+  let account = getAccount(store, user, event)
+  let accountICO = getAccountICO(store, account, icoId, event)
+  let accountAsset = getAccountAsset(store, account, asset)
+  let accountICOAsset = getAccountICOAsset(store, accountICO, asset)
+
+  account.positionCount += 1n
+  account.activePositionCount += 1n
+  account.lockedTokens += tokensMinted
+
+  accountICO.positionCount += 1n
+  accountICO.activePositionCount += 1n
+  accountICO.lockedTokens += tokensMinted
+
+  accountAsset.depositedAssets += assetAmount
+  accountICOAsset.depositedAssets += assetAmount
+
+  saveAccounts(store, account, accountICO)
+  store.save("AccountAsset", accountAsset)
+  store.save("AccountICOAsset", accountICOAsset)
+}
+
+export function recordAccountRedemption(
+  store: Store,
+  event: Event<unknown>,
+  icoId: string,
+  user: string,
+  asset: string,
+  assetAmount: bigint,
+  tokensBurned: bigint
+): void {
+  let account = getAccount(store, user, event)
+  let accountICO = getAccountICO(store, account, icoId, event)
+  let accountAsset = getAccountAsset(store, account, asset)
+  let accountICOAsset = getAccountICOAsset(store, accountICO, asset)
+
+  account.lockedTokens -= tokensBurned
+  account.redeemedTokens += tokensBurned
+
+  accountICO.lockedTokens -= tokensBurned
+  accountICO.redeemedTokens += tokensBurned
+
+  accountAsset.redeemedAssets += assetAmount
+  accountICOAsset.redeemedAssets += assetAmount
+
+  saveAccounts(store, account, accountICO)
+  store.save("AccountAsset", accountAsset)
+  store.save("AccountICOAsset", accountICOAsset)
+}
+
+export function recordAccountClaim(
+  store: Store,
+  event: Event<unknown>,
+  icoId: string,
+  user: string,
+  tokensClaimed: bigint
+): void {
+  let account = getAccount(store, user, event)
+  let accountICO = getAccountICO(store, account, icoId, event)
+
+  account.lockedTokens -= tokensClaimed
+  account.claimedTokens += tokensClaimed
+
+  accountICO.lockedTokens -= tokensClaimed
+  accountICO.claimedTokens += tokensClaimed
+
+  saveAccounts(store, account, accountICO)
+}
+
+export function recordAccountPositionClosed(store: Store, event: Event<unknown>, icoId: string, user: string): void {
+  let account = getAccount(store, user, event)
+  let accountICO = getAccountICO(store, account, icoId, event)
+
+  account.activePositionCount -= 1n
+  accountICO.activePositionCount -= 1n
+
+  saveAccounts(store, account, accountICO)
+}
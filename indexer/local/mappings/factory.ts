@@ -0,0 +1,64 @@
+import { Context, Event } from "../context"
+import { BigDecimal } from "../decimal"
+import { Creator, FactoryFlyingICO, FlyingICO } from "../entities"
+import { createFlyingICO } from "./ico"
+import { recordProtocolICO } from "./protocol"
+
+export interface FlyingIcoCreated {
+  flyingIco: string
+}
+
+function getCreator(ctx: Context, event: Event<FlyingIcoCreated>): Creator {
+  let id = event.transaction.from
+  let creator = ctx.store.load<Creator>("Creator", id) ?? {
+    id,
+    address: id,
+    icoCount: 0n,
+    firstLaunchAt: event.block.timestamp,
+    lastLaunchAt: event.block.timestamp,
+  }
+
+  creator.lastLaunchAt = event.block.timestamp
+
+  return creator
+}
+
+export function handleFactory__FlyingIcoCreated(ctx: Context, event: Event<FlyingIcoCreated>): void {
+  let factory = ctx.store.load<FactoryFlyingICO>("FactoryFlyingICO", event.address) ?? {
+    id: event.address,
+    icoCount: 0n,
+    backingUsd: BigDecimal.zero(),
+    availableUsd: BigDecimal.zero(),
+    tvlUsd: BigDecimal.zero(),
+    blockNumber: event.block.number,
+    blockTimestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash,
+  }
+
+  factory.icoCount += 1n
+  ctx.store.save("FactoryFlyingICO", factory)
+
+  let icoId = event.params.flyingIco
+  let ico = ctx.store.load<FlyingICO>("FlyingICO", icoId)
+
+  // the ICO emits FlyingICO__Initialized from its constructor, which may
+  // already have been handled in this block
+  if (!ico) {
+    ico = createFlyingICO(icoId, event.block.timestamp)
+    recordProtocolICO(ctx.store, event.block.timestamp)
+  }
+
+  let creator = getCreator(ctx, event)
+  creator.icoCount += 1n
+  ctx.store.save("Creator", creator)
+
+  ico.factory = factory.id
+  ico.creator = creator.id
+  ico.creatorAddress = creator.id
+  ico.creationBlock = event.block.number
+  ico.creationTransaction = event.transaction.hash
+
+  ctx.store.save("FlyingICO", ico)
+
+  ctx.createDataSource("FlyingICO", icoId, event.block)
+}
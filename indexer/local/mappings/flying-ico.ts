@@ -0,0 +1,602 @@
+import { Block, Context, Event } from "../context"
+import { BigDecimal, toDecimal } from "../decimal"
+import {
+  AcceptedAsset,
+  Claim,
+  Deposit,
+  FlyingICO,
+  FlyingPosition,
+  PositionClosure,
+  Redemption,
+  TreasuryWithdrawal,
+} from "../entities"
+import { Store } from "../store"
+import {
+  recordAccountClaim,
+  recordAccountDeposit,
+  recordAccountPositionClosed,
+  recordAccountRedemption,
+} from "./accounts"
+import { recordTokenTransfer } from "./holders"
+import { createFlyingICO } from "./ico"
+import { updateCapUtilization } from "./milestones"
+import { updatePhase } from "./phases"
+import { createPriceFeed, getAssetPrice, getOracle, revalueAsset } from "./pricing"
+import {
+  recordProtocolAcceptedAsset,
+  recordProtocolClaim,
+  recordProtocolDeposit,
+  recordProtocolICO,
+  recordProtocolPositionClosed,
+  recordProtocolRedemption,
+  recordProtocolTreasuryWithdrawal,
+} from "./protocol"
+import { recordReferral } from "./referrals"
+import {
+  closeAssetDayData,
+  closeICOData,
+  getAssetDayData,
+  getICODayData,
+  getICOHourData,
+  recordClaim,
+  recordDeposit,
+  recordRedemption,
+  recordTreasuryWithdrawal,
+} from "./snapshots"
+import { getToken, saveICOToken } from "./tokens"
+import { recordTreasuryAssetWithdrawal, recordTreasuryICO, recordTreasuryRelease } from "./treasuries"
+
+// Port of src/flying-ico.ts; comments on the contract semantics live there.
+
+export interface Initialized {
+  name: string
+  symbol: string
+  tokenCap: bigint
+  tokensPerUsd: bigint
+  acceptedAssets: readonly string[]
+  priceFeeds: readonly string[]
+  frequencies: readonly bigint[]
+  sequencer: string
+  treasury: string
+  vestingStart: bigint
+  vestingEnd: bigint
+}
+
+export interface Deposited {
+  user: string
+  positionId: bigint
+  asset: string
+  assetAmount: bigint
+  tokensMinted: bigint
+}
+
+export interface Redeemed {
+  user: string
+  positionId: bigint
+  tokensBurned: bigint
+  assetReturned: string
+  assetReturnedAmount: bigint
+}
+
+export interface Claimed {
+  user: string
+  positionId: bigint
+  tokensClaimed: bigint
+  assetReleased: string
+  assetReleasedAmount: bigint
+}
+
+export interface PositionClosed {
+  user: string
+  positionId: bigint
+}
+
+export interface AssetsTakenToTreasury {
+  asset: string
+  assetAmount: bigint
+}
+
+export interface Transfer {
+  from: string
+  to: string
+  value: bigint
+}
+
+function getPosition(store: Store, icoId: string, positionId: bigint): FlyingPosition {
+  let id = icoId + "-" + positionId.toString()
+
+  return (
+    store.load<FlyingPosition>("FlyingPosition", id) ?? {
+      id,
+      ico: icoId,
+      positionId,
+      user: "0x",
+      account: "0x",
+      assetAmount: 0n,
+      tokenAmount: 0n,
+      vestingAmount: 0n,
+      asset: "0x",
+      initialAssetAmount: 0n,
+      initialTokenAmount: 0n,
+      depositUsdValue: BigDecimal.zero(),
+      assetPriceUsd: BigDecimal.zero(),
+      redeemedTokens: 0n,
+      redeemedAssets: 0n,
+      claimedTokens: 0n,
+      claimedAssets: 0n,
+      isClosed: false,
+      closedAt: null,
+      createdAt: 0n,
+      updatedAt: 0n,
+    }
+  )
+}
+
+// graph-node stores Bytes ids as hex: transaction hash followed by the log
+// index as a big-endian i32, like `Bytes.concatI32`
+function activityId(event: Event<unknown>): string {
+  return event.transaction.hash + Number(event.logIndex).toString(16).padStart(8, "0")
+}
+
+async function getAsset(ctx: Context, icoId: string, assetAddress: string, event: Event<unknown>): Promise<AcceptedAsset> {
+  let id = icoId + "-" + assetAddress
+  let a = ctx.store.load<AcceptedAsset>("AcceptedAsset", id)
+
+  if (!a) {
+    let token = await getToken(ctx, assetAddress, event.block)
+
+    a = {
+      id,
+      ico: icoId,
+      address: assetAddress,
+      token: token.id,
+      symbol: token.symbol,
+      decimals: token.decimals,
+      priceFeed: null,
+      depositedAssets: 0n,
+      redeemedAssets: 0n,
+      releasedAssets: 0n,
+      withdrawnAssets: 0n,
+      depositedUsd: BigDecimal.zero(),
+      lastPriceUsd: BigDecimal.zero(),
+      totalAssets: 0n,
+      backingAssets: 0n,
+      availableAssets: 0n,
+      backingUsd: BigDecimal.zero(),
+      availableUsd: BigDecimal.zero(),
+      totalUsd: BigDecimal.zero(),
+      createdAt: 0n,
+      updatedAt: 0n,
+    }
+  }
+
+  return a
+}
+
+function refreshAssetBalances(a: AcceptedAsset): void {
+  a.backingAssets = a.depositedAssets - a.redeemedAssets - a.releasedAssets
+  a.availableAssets = a.releasedAssets - a.withdrawnAssets
+  a.totalAssets = a.backingAssets + a.availableAssets
+}
+
+function depositUsdValue(ico: FlyingICO | null, tokensMinted: bigint): BigDecimal {
+  if (!ico || ico.tokensPerUsd === 0n) {
+    return BigDecimal.zero()
+  }
+
+  return toDecimal(tokensMinted, 18).div(BigDecimal.fromBigInt(ico.tokensPerUsd))
+}
+
+export async function handleFlyingInitialized(ctx: Context, event: Event<Initialized>): Promise<void> {
+  let { store } = ctx
+  let icoId = event.address
+  let ico = store.load<FlyingICO>("FlyingICO", icoId)
+
+  // ICOs deployed outside the factory are indexed from their own data source
+  if (!ico) {
+    ico = createFlyingICO(icoId, event.block.timestamp)
+    recordProtocolICO(store, event.block.timestamp)
+  }
+
+  ico.name = event.params.name
+  ico.symbol = event.params.symbol
+  ico.token = saveICOToken(ctx, event.address, event.params.name, event.params.symbol).id
+  ico.creatorAddress = event.transaction.from
+  ico.creationBlock = event.block.number
+  ico.creationTransaction = event.transaction.hash
+  ico.tokenCap = event.params.tokenCap
+  ico.tokenCapAmount = event.params.tokenCap * 10n ** 18n
+  ico.tokensPerUsd = event.params.tokensPerUsd
+  ico.treasury = recordTreasuryICO(store, event.params.treasury, event.block.timestamp)
+  ico.sequencer = event.params.sequencer
+  ico.vestingStart = event.params.vestingStart
+  ico.vestingEnd = event.params.vestingEnd
+  ico.updatedAt = event.block.timestamp
+
+  let { acceptedAssets, priceFeeds, frequencies } = event.params
+  let symbols: string[] = []
+  for (let i = 0; i < acceptedAssets.length; i++) {
+    let a = await getAsset(ctx, icoId, acceptedAssets[i], event)
+    let oracle = await getOracle(ctx, priceFeeds[i], event)
+
+    let feed = createPriceFeed(
+      store,
+      a.id,
+      icoId,
+      priceFeeds[i],
+      oracle,
+      frequencies[i],
+      event.params.sequencer,
+      event.block.timestamp
+    )
+
+    a.priceFeed = feed.id
+    a.createdAt = event.block.timestamp
+    a.updatedAt = event.block.timestamp
+
+    store.save("AcceptedAsset", a)
+
+    recordProtocolAcceptedAsset(store, a, event.block.timestamp)
+    symbols.push(a.symbol)
+  }
+
+  ico.assetSymbols = symbols.join(" ")
+
+  store.save("FlyingICO", ico)
+}
+
+export async function handleFlyingDeposited(ctx: Context, event: Event<Deposited>): Promise<void> {
+  let { store } = ctx
+  let { params } = event
+  let icoId = event.address
+  let ico = store.load<FlyingICO>("FlyingICO", icoId)
+  let pos = getPosition(store, icoId, params.positionId)
+  let asset = await getAsset(ctx, icoId, params.asset, event)
+
+  let usdValue = depositUsdValue(ico, params.tokensMinted)
+  let assetAmount = toDecimal(params.assetAmount, Number(asset.decimals))
+  let zero = assetAmount.equals(BigDecimal.zero())
+  let assetPriceUsd = zero ? BigDecimal.zero() : usdValue.div(assetAmount)
+  let tokensPerAsset = zero ? BigDecimal.zero() : toDecimal(params.tokensMinted, 18).div(assetAmount)
+
+  pos.user = params.user
+  pos.account = params.user
+  pos.asset = params.asset
+  pos.assetAmount = params.assetAmount
+  pos.tokenAmount = params.tokensMinted
+  pos.vestingAmount = params.tokensMinted
+  pos.initialAssetAmount = params.assetAmount
+  pos.initialTokenAmount = params.tokensMinted
+  pos.depositUsdValue = usdValue
+  pos.assetPriceUsd = assetPriceUsd
+  pos.createdAt = event.block.timestamp
+  pos.updatedAt = event.block.timestamp
+
+  store.save("FlyingPosition", pos)
+
+  let deposit: Deposit = {
+    id: activityId(event),
+    ico: icoId,
+    position: pos.id,
+    sender: params.user,
+    asset: params.asset,
+    assetAmount: params.assetAmount,
+    tokensMinted: params.tokensMinted,
+    usdValue,
+    assetPriceUsd,
+    tokensPerAsset,
+    referrer: null,
+    blockNumber: event.block.number,
+    timestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash,
+    logIndex: event.logIndex,
+  }
+  deposit.referrer = recordReferral(store, deposit, event)
+
+  store.save("Deposit", deposit)
+
+  recordAccountDeposit(store, event, icoId, params.user, params.asset, params.assetAmount, params.tokensMinted)
+
+  if (ico) {
+    updatePhase(store, ico, event.block)
+
+    let hour = getICOHourData(store, ico, event)
+    let day = getICODayData(store, ico, event)
+
+    ico.totalSupply += params.tokensMinted
+    ico.positionCount += 1n
+    ico.activePositionCount += 1n
+    updateCapUtilization(store, ico, event)
+    ico.updatedAt = event.block.timestamp
+
+    store.save("FlyingICO", ico)
+
+    recordDeposit(hour, params.tokensMinted)
+    recordDeposit(day, params.tokensMinted)
+    closeICOData(store, hour, day, ico, event)
+  }
+
+  let assetDay = getAssetDayData(store, asset, event)
+
+  asset.depositedAssets += params.assetAmount
+  asset.depositedUsd = asset.depositedUsd.plus(usdValue)
+  asset.lastPriceUsd = assetPriceUsd
+  refreshAssetBalances(asset)
+  revalueAsset(store, asset, event)
+  asset.updatedAt = event.block.timestamp
+
+  store.save("AcceptedAsset", asset)
+
+  assetDay.depositedAssets += params.assetAmount
+  closeAssetDayData(store, assetDay, asset, event)
+
+  recordProtocolDeposit(store, event, asset, params.assetAmount, params.tokensMinted, usdValue)
+}
+
+export async function handleFlyingRedeemed(ctx: Context, event: Event<Redeemed>): Promise<void> {
+  let { store } = ctx
+  let { params } = event
+  let icoId = event.address
+  let ico = store.load<FlyingICO>("FlyingICO", icoId)
+  let pos = getPosition(store, icoId, params.positionId)
+  let asset = await getAsset(ctx, icoId, params.assetReturned, event)
+
+  pos.assetAmount -= params.assetReturnedAmount
+  pos.tokenAmount -= params.tokensBurned
+  pos.redeemedTokens += params.tokensBurned
+  pos.redeemedAssets += params.assetReturnedAmount
+  pos.updatedAt = event.block.timestamp
+
+  if (ico) {
+    updatePhase(store, ico, event.block)
+
+    if (event.block.timestamp < ico.vestingStart) {
+      pos.vestingAmount -= params.tokensBurned
+    }
+
+    let hour = getICOHourData(store, ico, event)
+    let day = getICODayData(store, ico, event)
+
+    ico.totalSupply -= params.tokensBurned
+    ico.tokensRedeemed += params.tokensBurned
+    updateCapUtilization(store, ico, event)
+    ico.updatedAt = event.block.timestamp
+
+    store.save("FlyingICO", ico)
+
+    recordRedemption(hour, params.tokensBurned)
+    recordRedemption(day, params.tokensBurned)
+    closeICOData(store, hour, day, ico, event)
+  }
+
+  store.save("FlyingPosition", pos)
+
+  let redemption: Redemption = {
+    id: activityId(event),
+    ico: icoId,
+    position: pos.id,
+    sender: params.user,
+    asset: params.assetReturned,
+    tokensBurned: params.tokensBurned,
+    assetAmount: params.assetReturnedAmount,
+    blockNumber: event.block.number,
+    timestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash,
+    logIndex: event.logIndex,
+  }
+
+  store.save("Redemption", redemption)
+
+  recordAccountRedemption(
+    store,
+    event,
+    icoId,
+    params.user,
+    params.assetReturned,
+    params.assetReturnedAmount,
+    params.tokensBurned
+  )
+
+  let assetDay = getAssetDayData(store, asset, event)
+
+  asset.redeemedAssets += params.assetReturnedAmount
+  refreshAssetBalances(asset)
+  revalueAsset(store, asset, event)
+  asset.updatedAt = event.block.timestamp
+
+  store.save("AcceptedAsset", asset)
+
+  assetDay.redeemedAssets += params.assetReturnedAmount
+  closeAssetDayData(store, assetDay, asset, event)
+
+  recordProtocolRedemption(store, event, asset, params.assetReturnedAmount, params.tokensBurned)
+}
+
+export async function handleFlyingClaimed(ctx: Context, event: Event<Claimed>): Promise<void> {
+  let { store } = ctx
+  let { params } = event
+  let icoId = event.address
+  let ico = store.load<FlyingICO>("FlyingICO", icoId)
+  let pos = getPosition(store, icoId, params.positionId)
+  let asset = await getAsset(ctx, icoId, params.assetReleased, event)
+
+  pos.assetAmount -= params.assetReleasedAmount
+  pos.tokenAmount -= params.tokensClaimed
+  pos.claimedTokens += params.tokensClaimed
+  pos.claimedAssets += params.assetReleasedAmount
+  pos.updatedAt = event.block.timestamp
+
+  if (ico) {
+    updatePhase(store, ico, event.block)
+
+    if (event.block.timestamp < ico.vestingStart) {
+      pos.vestingAmount -= params.tokensClaimed
+    }
+
+    let hour = getICOHourData(store, ico, event)
+    let day = getICODayData(store, ico, event)
+
+    ico.tokensClaimed += params.tokensClaimed
+    ico.updatedAt = event.block.timestamp
+
+    store.save("FlyingICO", ico)
+
+    recordClaim(hour, params.tokensClaimed)
+    recordClaim(day, params.tokensClaimed)
+    closeICOData(store, hour, day, ico, event)
+  }
+
+  store.save("FlyingPosition", pos)
+
+  let claim: Claim = {
+    id: activityId(event),
+    ico: icoId,
+    position: pos.id,
+    sender: params.user,
+    asset: params.assetReleased,
+    tokensClaimed: params.tokensClaimed,
+    assetAmount: params.assetReleasedAmount,
+    blockNumber: event.block.number,
+    timestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash,
+    logIndex: event.logIndex,
+  }
+
+  store.save("Claim", claim)
+
+  recordAccountClaim(store, event, icoId, params.user, params.tokensClaimed)
+
+  let assetDay = getAssetDayData(store, asset, event)
+
+  asset.releasedAssets += params.assetReleasedAmount
+  refreshAssetBalances(asset)
+  revalueAsset(store, asset, event)
+  asset.updatedAt = event.block.timestamp
+
+  store.save("AcceptedAsset", asset)
+
+  assetDay.releasedAssets += params.assetReleasedAmount
+  closeAssetDayData(store, assetDay, asset, event)
+
+  recordProtocolClaim(store, event, asset, params.assetReleasedAmount, params.tokensClaimed)
+
+  if (ico) {
+    recordTreasuryRelease(store, ico.treasury, asset, params.assetReleasedAmount, event)
+  }
+}
+
+export function handleFlyingPositionClosed(ctx: Context, event: Event<PositionClosed>): void {
+  let { store } = ctx
+  let icoId = event.address
+  let ico = store.load<FlyingICO>("FlyingICO", icoId)
+  let pos = getPosition(store, icoId, event.params.positionId)
+
+  pos.isClosed = true
+  pos.closedAt = event.block.timestamp
+  pos.updatedAt = event.block.timestamp
+
+  store.save("FlyingPosition", pos)
+
+  let closure: PositionClosure = {
+    id: activityId(event),
+    ico: icoId,
+    position: pos.id,
+    sender: event.params.user,
+    asset: pos.asset,
+    blockNumber: event.block.number,
+    timestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash,
+    logIndex: event.logIndex,
+  }
+
+  store.save("PositionClosure", closure)
+
+  recordAccountPositionClosed(store, event, icoId, event.params.user)
+  recordProtocolPositionClosed(store, event)
+
+  if (ico) {
+    let hour = getICOHourData(store, ico, event)
+    let day = getICODayData(store, ico, event)
+
+    ico.activePositionCount -= 1n
+    ico.updatedAt = event.block.timestamp
+
+    store.save("FlyingICO", ico)
+
+    closeICOData(store, hour, day, ico, event)
+  }
+}
+
+export async function handleFlyingAssetsTakenToTreasury(ctx: Context, event: Event<AssetsTakenToTreasury>): Promise<void> {
+  let { store } = ctx
+  let { params } = event
+  let icoId = event.address
+  let ico = store.load<FlyingICO>("FlyingICO", icoId)
+  let asset = await getAsset(ctx, icoId, params.asset, event)
+  let treasuryId = ico ? ico.treasury : event.transaction.from
+  let usdValue = toDecimal(params.assetAmount, Number(asset.decimals)).times(getAssetPrice(store, asset))
+
+  let withdrawal: TreasuryWithdrawal = {
+    id: activityId(event),
+    ico: icoId,
+    sender: event.transaction.from,
+    asset: params.asset,
+    treasury: treasuryId,
+    assetAmount: params.assetAmount,
+    usdValue,
+    blockNumber: event.block.number,
+    timestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash,
+    logIndex: event.logIndex,
+  }
+
+  store.save("TreasuryWithdrawal", withdrawal)
+
+  if (ico) {
+    let hour = getICOHourData(store, ico, event)
+    let day = getICODayData(store, ico, event)
+
+    recordTreasuryWithdrawal(hour)
+    recordTreasuryWithdrawal(day)
+    closeICOData(store, hour, day, ico, event)
+  }
+
+  let assetDay = getAssetDayData(store, asset, event)
+
+  asset.withdrawnAssets += params.assetAmount
+  refreshAssetBalances(asset)
+  revalueAsset(store, asset, event)
+  asset.updatedAt = event.block.timestamp
+
+  store.save("AcceptedAsset", asset)
+
+  assetDay.withdrawnAssets += params.assetAmount
+  closeAssetDayData(store, assetDay, asset, event)
+
+  recordProtocolTreasuryWithdrawal(store, event, asset, params.assetAmount)
+  recordTreasuryAssetWithdrawal(store, treasuryId, asset, params.assetAmount, usdValue, event)
+}
+
+export function handleFlyingTransfer(ctx: Context, event: Event<Transfer>): void {
+  let ico = ctx.store.load<FlyingICO>("FlyingICO", event.address)
+
+  if (!ico) {
+    return
+  }
+
+  recordTokenTransfer(ctx.store, ico, event.params.from, event.params.to, event.params.value, event)
+  ico.updatedAt = event.block.timestamp
+
+  ctx.store.save("FlyingICO", ico)
+}
+
+// Stands in for the subgraph's polling block handler, run once per indexed range
+export function handleFlyingBlock(ctx: Context, icoId: string, block: Block): void {
+  let ico = ctx.store.load<FlyingICO>("FlyingICO", icoId)
+
+  if (ico && updatePhase(ctx.store, ico, block)) {
+    ico.updatedAt = block.timestamp
+
+    ctx.store.save("FlyingICO", ico)
+  }
+}
@@ -0,0 +1,69 @@
+import { zeroAddress } from "viem"
+import { Event } from "../context"
+import { FlyingICO, TokenHolder } from "../entities"
+import { Store } from "../store"
+
+// The contract's own balance is the locked supply; every other balance is
+// circulating and belongs to a TokenHolder, see src/holders.ts.
+
+function getHolder(store: Store, icoId: string, holder: string, event: Event<unknown>): TokenHolder {
+  let id = icoId + "-" + holder
+  let h = store.load<TokenHolder>("TokenHolder", id) ?? {
+    id,
+    ico: icoId,
+    address: holder,
+    balance: 0n,
+    transferCount: 0n,
+    createdAt: event.block.timestamp,
+    updatedAt: event.block.timestamp,
+  }
+
+  h.transferCount += 1n
+  h.updatedAt = event.block.timestamp
+
+  return h
+}
+
+function moveHolderBalance(store: Store, ico: FlyingICO, holder: string, delta: bigint, event: Event<unknown>): void {
+  let h = getHolder(store, ico.id, holder, event)
+  let wasHolder = h.balance !== 0n
+
+  h.balance += delta
+
+  let isHolder = h.balance !== 0n
+
+  if (!wasHolder && isHolder) {
+    ico.holderCount += 1n
+  } else if (wasHolder && !isHolder) {
+    ico.holderCount -= 1n
+  }
+
+  ico.circulatingSupply += delta
+
+  store.save("TokenHolder", h)
+}
+
+// Applies one side of a transfer; the zero address (mint/burn) is skipped.
+function moveBalance(store: Store, ico: FlyingICO, account: string, delta: bigint, event: Event<unknown>): void {
+  if (account === zeroAddress) {
+    return
+  }
+
+  if (account === event.address) {
+    ico.lockedSupply += delta
+  } else {
+    moveHolderBalance(store, ico, account, delta, event)
+  }
+}
+
+export function recordTokenTransfer(
+  store: Store,
+  ico: FlyingICO,
+  from: string,
+  to: string,
+  value: bigint,
+  event: Event<unknown>
+): void {
+  moveBalance(store, ico, from, -value, event)
+  moveBalance(store, ico, to, value, event)
+}
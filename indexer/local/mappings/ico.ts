@@ -0,0 +1,49 @@
+import { zeroAddress } from "viem"
+import { BigDecimal } from "../decimal"
+import { FlyingICO } from "../entities"
+
+// Placeholder for an ICO whose FlyingICO__Initialized event has not been
+// handled yet. Factory-launched ICOs set `factory`, standalone ones leave it null.
+export function createFlyingICO(id: string, timestamp: bigint): FlyingICO {
+  return {
+    id,
+    factory: null,
+    name: "-",
+    symbol: "-",
+    token: id,
+    creator: null,
+    creationBlock: 0n,
+    creationTransaction: "0x",
+    creatorAddress: "",
+    assetSymbols: "",
+    treasury: zeroAddress,
+    sequencer: "0x",
+    vestingStart: 0n,
+    vestingEnd: 0n,
+    tokenCap: 0n,
+    tokensPerUsd: 0n,
+    tokenCapAmount: 0n,
+    capUtilizationBps: 0,
+    highestMilestoneBps: 0,
+    positionCount: 0n,
+    activePositionCount: 0n,
+    totalSupply: 0n,
+    tokensRedeemed: 0n,
+    tokensClaimed: 0n,
+    lockedSupply: 0n,
+    circulatingSupply: 0n,
+    holderCount: 0n,
+    backingUsd: BigDecimal.zero(),
+    availableUsd: BigDecimal.zero(),
+    tvlUsd: BigDecimal.zero(),
+    phase: "PRE_VESTING",
+    phaseChangedAt: timestamp,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }
+}
+
+export function lockedTokens(ico: FlyingICO): bigint {
+  // claimed tokens stay in the supply but are no longer held under a PUT
+  return ico.totalSupply - ico.tokensClaimed
+}
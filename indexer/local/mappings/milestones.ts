@@ -0,0 +1,39 @@
+import { Event } from "../context"
+import { FlyingICO, RaiseMilestone } from "../entities"
+import { Store } from "../store"
+
+const MILESTONES = [2500, 5000, 7500, 9000, 10000]
+
+// Refreshes the ICO's cap utilization after its supply changed, and records
+// every milestone crossed for the first time. The caller saves the ICO.
+export function updateCapUtilization(store: Store, ico: FlyingICO, event: Event<unknown>): void {
+  if (ico.tokenCapAmount === 0n) {
+    return
+  }
+
+  // the contract caps totalSupply, so redemptions free room under the cap
+  let bps = Number((ico.totalSupply * 10000n) / ico.tokenCapAmount)
+  ico.capUtilizationBps = bps
+
+  for (let threshold of MILESTONES) {
+    if (threshold <= ico.highestMilestoneBps || threshold > bps) {
+      continue
+    }
+
+    let milestone: RaiseMilestone = {
+      id: ico.id + "-" + threshold.toString(),
+      ico: ico.id,
+      thresholdBps: threshold,
+      totalSupply: ico.totalSupply,
+      capUtilizationBps: bps,
+      positionCount: ico.positionCount,
+      blockNumber: event.block.number,
+      timestamp: event.block.timestamp,
+      transactionHash: event.transaction.hash,
+    }
+
+    store.save("RaiseMilestone", milestone)
+
+    ico.highestMilestoneBps = threshold
+  }
+}
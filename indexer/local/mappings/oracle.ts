@@ -0,0 +1,39 @@
+import { Context, Event } from "../context"
+import { toDecimal } from "../decimal"
+import { AcceptedAsset, Oracle, PriceFeed } from "../entities"
+import { revalueAsset } from "./pricing"
+
+export interface AnswerUpdated {
+  current: bigint
+  roundId: bigint
+  updatedAt: bigint
+}
+
+// The aggregator reports for the feeds (proxies) the ICOs were configured
+// with; the subgraph passes the feed as data source context instead.
+export function handleAnswerUpdated(ctx: Context, event: Event<AnswerUpdated>): void {
+  for (let oracle of ctx.store.loadRelated<Oracle>("Oracle", "aggregator", event.address)) {
+    oracle.latestAnswer = event.params.current
+    oracle.price = toDecimal(event.params.current, oracle.decimals)
+    oracle.roundId = event.params.roundId
+    oracle.updatedAt = event.params.updatedAt
+
+    ctx.store.save("Oracle", oracle)
+
+    for (let priceFeed of ctx.store.loadRelated<PriceFeed>("PriceFeed", "oracle", oracle.id)) {
+      priceFeed.staleAt = oracle.updatedAt + priceFeed.frequency
+      priceFeed.updatedAt = event.block.timestamp
+
+      ctx.store.save("PriceFeed", priceFeed)
+
+      let asset = ctx.store.load<AcceptedAsset>("AcceptedAsset", priceFeed.asset)
+
+      if (asset) {
+        revalueAsset(ctx.store, asset, event)
+        asset.updatedAt = event.block.timestamp
+
+        ctx.store.save("AcceptedAsset", asset)
+      }
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { Block } from "../context"
+import { FlyingICO, PhaseTransition } from "../entities"
+import { Store } from "../store"
+import { lockedTokens } from "./ico"
+
+const PRE_VESTING = "PRE_VESTING"
+const VESTING = "VESTING"
+const LOCKED = "LOCKED"
+
+function recordTransition(
+  store: Store,
+  ico: FlyingICO,
+  phase: string,
+  at: bigint,
+  redeemable: bigint,
+  block: Block
+): void {
+  let transition: PhaseTransition = {
+    id: ico.id + "-" + phase,
+    ico: ico.id,
+    phase,
+    previousPhase: ico.phase,
+    timestamp: at,
+    observedAt: block.timestamp,
+    blockNumber: block.number,
+    lockedTokens: lockedTokens(ico),
+    redeemableTokens: redeemable,
+    backingUsd: ico.backingUsd,
+  }
+
+  store.save("PhaseTransition", transition)
+
+  ico.phase = phase
+  ico.phaseChangedAt = at
+}
+
+// Moves the ICO into the vesting phase of `block`, see src/phases.ts. The
+// caller saves the ICO; returns whether the phase changed.
+export function updatePhase(store: Store, ico: FlyingICO, block: Block): boolean {
+  // not initialized yet, the vesting schedule is unknown
+  if (ico.vestingEnd === 0n) {
+    return false
+  }
+
+  let changed = false
+
+  // the vesting rate is still 100%, so every locked token is redeemable
+  if (ico.phase === PRE_VESTING && block.timestamp >= ico.vestingStart) {
+    recordTransition(store, ico, VESTING, ico.vestingStart, lockedTokens(ico), block)
+    changed = true
+  }
+
+  // the vesting rate reaches 0 and nothing is redeemable anymore
+  if (ico.phase === VESTING && block.timestamp >= ico.vestingEnd) {
+    recordTransition(store, ico, LOCKED, ico.vestingEnd, 0n, block)
+    changed = true
+  }
+
+  return changed
+}
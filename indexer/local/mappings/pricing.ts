@@ -0,0 +1,148 @@
+import { chainlinkAggregatorAbi } from "../abis"
+import { Context, Event } from "../context"
+import { BigDecimal, toDecimal } from "../decimal"
+import { AcceptedAsset, FactoryFlyingICO, FlyingICO, Oracle, PriceFeed } from "../entities"
+import { Store } from "../store"
+import { recordProtocolRevaluation } from "./protocol"
+import { closeICOBacking, getICODayData, getICOHourData } from "./snapshots"
+import { recordTreasuryRevaluation } from "./treasuries"
+
+// ChainlinkLibrary's sequencer uptime grace period
+const SEQUENCER_GRACE_PERIOD = 3600n
+
+// Loads the oracle behind a Chainlink feed, indexing its aggregator the first
+// time the feed is seen, see src/pricing.ts.
+export async function getOracle(ctx: Context, feed: string, event: Event<unknown>): Promise<Oracle> {
+  let id = feed.toLowerCase()
+  let oracle = ctx.store.load<Oracle>("Oracle", id)
+
+  if (!oracle) {
+    let aggregator = (await ctx.tryCall(id, chainlinkAggregatorAbi, "aggregator", event.block)) ?? id
+    let decimals = await ctx.tryCall(id, chainlinkAggregatorAbi, "decimals", event.block)
+    let description = await ctx.tryCall(id, chainlinkAggregatorAbi, "description", event.block)
+    let round = await ctx.tryCall(id, chainlinkAggregatorAbi, "latestRoundData", event.block)
+
+    oracle = {
+      id,
+      address: id,
+      aggregator: aggregator.toLowerCase(),
+      decimals: decimals ?? 8,
+      description: description ?? "-",
+      latestAnswer: round ? round[1] : 0n,
+      price: BigDecimal.zero(),
+      roundId: round ? round[0] : 0n,
+      updatedAt: round ? round[3] : event.block.timestamp,
+    }
+    oracle.price = toDecimal(oracle.latestAnswer, oracle.decimals)
+
+    ctx.store.save("Oracle", oracle)
+
+    ctx.createDataSource("ChainlinkAggregator", oracle.aggregator, event.block)
+  }
+
+  return oracle
+}
+
+// Configures an ICO's feed for one accepted asset, see src/pricing.ts
+export function createPriceFeed(
+  store: Store,
+  assetId: string,
+  icoId: string,
+  feed: string,
+  oracle: Oracle,
+  frequency: bigint,
+  sequencer: string,
+  timestamp: bigint
+): PriceFeed {
+  let priceFeed: PriceFeed = {
+    id: assetId,
+    ico: icoId,
+    asset: assetId,
+    address: feed,
+    oracle: oracle.id,
+    decimals: oracle.decimals,
+    frequency,
+    staleAt: oracle.updatedAt + frequency,
+    sequencer,
+    sequencerGracePeriod: BigInt(sequencer) === 0n ? 0n : SEQUENCER_GRACE_PERIOD,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }
+
+  store.save("PriceFeed", priceFeed)
+
+  return priceFeed
+}
+
+// Latest USD price of one unit of the asset, zero without a feed
+export function getAssetPrice(store: Store, asset: AcceptedAsset): BigDecimal {
+  if (!asset.priceFeed) {
+    return BigDecimal.zero()
+  }
+
+  let feed = store.load<PriceFeed>("PriceFeed", asset.priceFeed)
+  if (!feed) {
+    return BigDecimal.zero()
+  }
+
+  let oracle = store.load<Oracle>("Oracle", feed.oracle)
+  if (!oracle) {
+    return BigDecimal.zero()
+  }
+
+  return oracle.price
+}
+
+// Re-values an asset's balances at its oracle's latest price and carries the
+// change over to its ICO and its hour/day snapshots, treasury, factory and the
+// protocol totals. The caller saves the asset; the ICO is loaded fresh, so
+// handlers must have saved their own copy beforehand.
+export function revalueAsset(store: Store, asset: AcceptedAsset, event: Event<unknown>): void {
+  let price = getAssetPrice(store, asset)
+  let decimals = Number(asset.decimals)
+
+  let backingUsd = toDecimal(asset.backingAssets, decimals).times(price)
+  let availableUsd = toDecimal(asset.availableAssets, decimals).times(price)
+
+  let backingDelta = backingUsd.minus(asset.backingUsd)
+  let availableDelta = availableUsd.minus(asset.availableUsd)
+
+  asset.backingUsd = backingUsd
+  asset.availableUsd = availableUsd
+  asset.totalUsd = backingUsd.plus(availableUsd)
+
+  recordProtocolRevaluation(store, asset, backingDelta, availableDelta)
+
+  let ico = store.load<FlyingICO>("FlyingICO", asset.ico)
+  if (!ico) {
+    return
+  }
+
+  let hour = getICOHourData(store, ico, event)
+  let day = getICODayData(store, ico, event)
+
+  ico.backingUsd = ico.backingUsd.plus(backingDelta)
+  ico.availableUsd = ico.availableUsd.plus(availableDelta)
+  ico.tvlUsd = ico.backingUsd.plus(ico.availableUsd)
+
+  store.save("FlyingICO", ico)
+
+  closeICOBacking(store, hour, day, ico, event)
+
+  recordTreasuryRevaluation(store, ico.treasury, asset, availableDelta, event.block.timestamp)
+
+  if (!ico.factory) {
+    return
+  }
+
+  let factory = store.load<FactoryFlyingICO>("FactoryFlyingICO", ico.factory)
+  if (!factory) {
+    return
+  }
+
+  factory.backingUsd = factory.backingUsd.plus(backingDelta)
+  factory.availableUsd = factory.availableUsd.plus(availableDelta)
+  factory.tvlUsd = factory.backingUsd.plus(factory.availableUsd)
+
+  store.save("FactoryFlyingICO", factory)
+}
@@ -0,0 +1,213 @@
+import { Event } from "../context"
+import { BigDecimal } from "../decimal"
+import { AcceptedAsset, Protocol, ProtocolAsset } from "../entities"
+import { Store } from "../store"
+
+const PROTOCOL_ID = "1"
+
+// Protocol-wide rollups, see src/protocol.ts. Each record function loads,
+// updates and saves its own copies, so they can be called from anywhere.
+
+function getProtocol(store: Store): Protocol {
+  return (
+    store.load<Protocol>("Protocol", PROTOCOL_ID) ?? {
+      id: PROTOCOL_ID,
+      icoCount: 0n,
+      userCount: 0n,
+      positionCount: 0n,
+      activePositionCount: 0n,
+      depositCount: 0n,
+      redemptionCount: 0n,
+      claimCount: 0n,
+      treasuryWithdrawalCount: 0n,
+      tokensMinted: 0n,
+      tokensRedeemed: 0n,
+      tokensClaimed: 0n,
+      depositedUsd: BigDecimal.zero(),
+      backingUsd: BigDecimal.zero(),
+      availableUsd: BigDecimal.zero(),
+      tvlUsd: BigDecimal.zero(),
+      updatedAt: 0n,
+    }
+  )
+}
+
+function getProtocolAsset(store: Store, asset: AcceptedAsset): ProtocolAsset {
+  return (
+    store.load<ProtocolAsset>("ProtocolAsset", asset.address) ?? {
+      id: asset.address,
+      protocol: PROTOCOL_ID,
+      address: asset.address,
+      token: asset.token,
+      symbol: asset.symbol,
+      decimals: asset.decimals,
+      icoCount: 0n,
+      depositedAssets: 0n,
+      redeemedAssets: 0n,
+      releasedAssets: 0n,
+      withdrawnAssets: 0n,
+      backingAssets: 0n,
+      availableAssets: 0n,
+      depositedUsd: BigDecimal.zero(),
+      backingUsd: BigDecimal.zero(),
+      availableUsd: BigDecimal.zero(),
+      totalUsd: BigDecimal.zero(),
+      updatedAt: 0n,
+    }
+  )
+}
+
+// same balance sheet as AcceptedAsset, summed over ICOs
+function refreshProtocolAssetBalances(a: ProtocolAsset): void {
+  a.backingAssets = a.depositedAssets - a.redeemedAssets - a.releasedAssets
+  a.availableAssets = a.releasedAssets - a.withdrawnAssets
+}
+
+export function recordProtocolICO(store: Store, timestamp: bigint): void {
+  let p = getProtocol(store)
+
+  p.icoCount += 1n
+  p.updatedAt = timestamp
+
+  store.save("Protocol", p)
+}
+
+export function recordProtocolUser(store: Store, timestamp: bigint): void {
+  let p = getProtocol(store)
+
+  p.userCount += 1n
+  p.updatedAt = timestamp
+
+  store.save("Protocol", p)
+}
+
+export function recordProtocolAcceptedAsset(store: Store, asset: AcceptedAsset, timestamp: bigint): void {
+  let a = getProtocolAsset(store, asset)
+
+  a.icoCount += 1n
+  a.updatedAt = timestamp
+
+  store.save("ProtocolAsset", a)
+}
+
+export function recordProtocolDeposit(
+  store: Store,
+  event: Event<unknown>,
+  asset: AcceptedAsset,
+  assetAmount: bigint,
+  tokensMinted: bigint,
+  usdValue: BigDecimal
+): void {
+  let p = getProtocol(store)
+  let a = getProtocolAsset(store, asset)
+
+  p.positionCount += 1n
+  p.activePositionCount += 1n
+  p.depositCount += 1n
+  p.tokensMinted += tokensMinted
+  p.depositedUsd = p.depositedUsd.plus(usdValue)
+  p.updatedAt = event.block.timestamp
+
+  a.depositedAssets += assetAmount
+  a.depositedUsd = a.depositedUsd.plus(usdValue)
+  refreshProtocolAssetBalances(a)
+  a.updatedAt = event.block.timestamp
+
+  store.save("Protocol", p)
+  store.save("ProtocolAsset", a)
+}
+
+export function recordProtocolRedemption(
+  store: Store,
+  event: Event<unknown>,
+  asset: AcceptedAsset,
+  assetAmount: bigint,
+  tokensBurned: bigint
+): void {
+  let p = getProtocol(store)
+  let a = getProtocolAsset(store, asset)
+
+  p.redemptionCount += 1n
+  p.tokensRedeemed += tokensBurned
+  p.updatedAt = event.block.timestamp
+
+  a.redeemedAssets += assetAmount
+  refreshProtocolAssetBalances(a)
+  a.updatedAt = event.block.timestamp
+
+  store.save("Protocol", p)
+  store.save("ProtocolAsset", a)
+}
+
+export function recordProtocolClaim(
+  store: Store,
+  event: Event<unknown>,
+  asset: AcceptedAsset,
+  assetAmount: bigint,
+  tokensClaimed: bigint
+): void {
+  let p = getProtocol(store)
+  let a = getProtocolAsset(store, asset)
+
+  p.claimCount += 1n
+  p.tokensClaimed += tokensClaimed
+  p.updatedAt = event.block.timestamp
+
+  a.releasedAssets += assetAmount
+  refreshProtocolAssetBalances(a)
+  a.updatedAt = event.block.timestamp
+
+  store.save("Protocol", p)
+  store.save("ProtocolAsset", a)
+}
+
+export function recordProtocolPositionClosed(store: Store, event: Event<unknown>): void {
+  let p = getProtocol(store)
+
+  p.activePositionCount -= 1n
+  p.updatedAt = event.block.timestamp
+
+  store.save("Protocol", p)
+}
+
+export function recordProtocolTreasuryWithdrawal(
+  store: Store,
+  event: Event<unknown>,
+  asset: AcceptedAsset,
+  assetAmount: bigint
+): void {
+  let p = getProtocol(store)
+  let a = getProtocolAsset(store, asset)
+
+  p.treasuryWithdrawalCount += 1n
+  p.updatedAt = event.block.timestamp
+
+  a.withdrawnAssets += assetAmount
+  refreshProtocolAssetBalances(a)
+  a.updatedAt = event.block.timestamp
+
+  store.save("Protocol", p)
+  store.save("ProtocolAsset", a)
+}
+
+// Applies the USD change of one revalued AcceptedAsset, see revalueAsset.
+export function recordProtocolRevaluation(
+  store: Store,
+  asset: AcceptedAsset,
+  backingDelta: BigDecimal,
+  availableDelta: BigDecimal
+): void {
+  let p = getProtocol(store)
+  let a = getProtocolAsset(store, asset)
+
+  p.backingUsd = p.backingUsd.plus(backingDelta)
+  p.availableUsd = p.availableUsd.plus(availableDelta)
+  p.tvlUsd = p.backingUsd.plus(p.availableUsd)
+
+  a.backingUsd = a.backingUsd.plus(backingDelta)
+  a.availableUsd = a.availableUsd.plus(availableDelta)
+  a.totalUsd = a.backingUsd.plus(a.availableUsd)
+
+  store.save("Protocol", p)
+  store.save("ProtocolAsset", a)
+}
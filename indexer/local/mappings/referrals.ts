@@ -0,0 +1,89 @@
+import { hexToBytes } from "viem"
+import { Event } from "../context"
+import { BigDecimal } from "../decimal"
+import { Deposit, Referral, Referrer } from "../entities"
+import { Store } from "../store"
+
+// "FLYR", the last 4 bytes of a referred deposit's calldata
+const MARKER = [0x46, 0x4c, 0x59, 0x52]
+const MAX_CODE_LENGTH = 32
+// function selector, code length byte and marker
+const MIN_OVERHEAD = 4 + 1 + 4
+const CODE_PATTERN = /^[a-zA-Z0-9_-]+$/
+
+// Reads the referral suffix `code | length (1 byte) | marker` off the end of
+// the transaction calldata, see src/referrals.ts.
+export function decodeReferralCode(input: `0x${string}`): string | null {
+  let bytes = hexToBytes(input)
+  let n = bytes.length
+  if (n < MIN_OVERHEAD + 1) {
+    return null
+  }
+
+  if (MARKER.some((b, i) => bytes[n - MARKER.length + i] !== b)) {
+    return null
+  }
+
+  let length = bytes[n - 5]
+  if (length < 1 || length > MAX_CODE_LENGTH || n < MIN_OVERHEAD + length) {
+    return null
+  }
+
+  let code = new TextDecoder().decode(bytes.subarray(n - 5 - length, n - 5))
+  if (!CODE_PATTERN.test(code)) {
+    return null
+  }
+
+  return code.toLowerCase()
+}
+
+function getReferrer(store: Store, code: string, timestamp: bigint): Referrer {
+  let r = store.load<Referrer>("Referrer", code) ?? {
+    id: code,
+    depositCount: 0n,
+    tokensMinted: 0n,
+    depositedUsd: BigDecimal.zero(),
+    firstReferralAt: timestamp,
+    lastReferralAt: timestamp,
+  }
+
+  r.lastReferralAt = timestamp
+
+  return r
+}
+
+// Attributes a deposit to the referral code in its transaction calldata, if
+// any, returning the referrer id. Only the top-level calldata is inspected.
+export function recordReferral(store: Store, deposit: Deposit, event: Event<unknown>): string | null {
+  let code = decodeReferralCode(event.transaction.input)
+  if (code === null) {
+    return null
+  }
+
+  let r = getReferrer(store, code, event.block.timestamp)
+
+  r.depositCount += 1n
+  r.tokensMinted += deposit.tokensMinted
+  r.depositedUsd = r.depositedUsd.plus(deposit.usdValue)
+
+  store.save("Referrer", r)
+
+  let referral: Referral = {
+    id: deposit.id,
+    referrer: r.id,
+    deposit: deposit.id,
+    ico: deposit.ico,
+    user: deposit.sender,
+    asset: deposit.asset,
+    assetAmount: deposit.assetAmount,
+    tokensMinted: deposit.tokensMinted,
+    usdValue: deposit.usdValue,
+    blockNumber: event.block.number,
+    timestamp: event.block.timestamp,
+    transactionHash: event.transaction.hash,
+  }
+
+  store.save("Referral", referral)
+
+  return r.id
+}
@@ -0,0 +1,162 @@
+import { Event } from "../context"
+import { AcceptedAsset, AcceptedAssetDayData, FlyingICO, FlyingICODayData, FlyingICOHourData, ICOData } from "../entities"
+import { Store } from "../store"
+import { lockedTokens } from "./ico"
+
+const HOUR = 3600n
+const DAY = 86400n
+
+// Snapshots are loaded before a handler mutates the ICO or asset, so that a
+// new bucket opens with the state as it was before the event, and closed
+// with the updated state once the handler is done.
+
+function initICOData(id: string, ico: FlyingICO, event: Event<unknown>): ICOData {
+  return {
+    id,
+    ico: ico.id,
+
+    openTotalSupply: ico.totalSupply,
+    closeTotalSupply: ico.totalSupply,
+    openLockedTokens: lockedTokens(ico),
+    closeLockedTokens: lockedTokens(ico),
+    openPositionCount: ico.positionCount,
+    closePositionCount: ico.positionCount,
+    openActivePositionCount: ico.activePositionCount,
+    closeActivePositionCount: ico.activePositionCount,
+    openBackingUsd: ico.backingUsd,
+    closeBackingUsd: ico.backingUsd,
+
+    depositCount: 0n,
+    tokensMinted: 0n,
+    redemptionCount: 0n,
+    tokensRedeemed: 0n,
+    claimCount: 0n,
+    tokensClaimed: 0n,
+    treasuryWithdrawalCount: 0n,
+
+    updatedAt: event.block.timestamp,
+  }
+}
+
+export function getICOHourData(store: Store, ico: FlyingICO, event: Event<unknown>): FlyingICOHourData {
+  let index = event.block.timestamp / HOUR
+  let id = ico.id + "-" + index.toString()
+
+  return (
+    store.load<FlyingICOHourData>("FlyingICOHourData", id) ?? {
+      ...initICOData(id, ico, event),
+      periodStartUnix: Number(index * HOUR),
+    }
+  )
+}
+
+export function getICODayData(store: Store, ico: FlyingICO, event: Event<unknown>): FlyingICODayData {
+  let index = event.block.timestamp / DAY
+  let id = ico.id + "-" + index.toString()
+
+  return (
+    store.load<FlyingICODayData>("FlyingICODayData", id) ?? {
+      ...initICOData(id, ico, event),
+      date: Number(index * DAY),
+    }
+  )
+}
+
+export function recordDeposit(data: ICOData, tokensMinted: bigint): void {
+  data.depositCount += 1n
+  data.tokensMinted += tokensMinted
+}
+
+export function recordRedemption(data: ICOData, tokensBurned: bigint): void {
+  data.redemptionCount += 1n
+  data.tokensRedeemed += tokensBurned
+}
+
+export function recordClaim(data: ICOData, tokensClaimed: bigint): void {
+  data.claimCount += 1n
+  data.tokensClaimed += tokensClaimed
+}
+
+export function recordTreasuryWithdrawal(data: ICOData): void {
+  data.treasuryWithdrawalCount += 1n
+}
+
+// Closes the hour and day buckets of one event with the ICO's updated state
+export function closeICOData(
+  store: Store,
+  hour: FlyingICOHourData,
+  day: FlyingICODayData,
+  ico: FlyingICO,
+  event: Event<unknown>
+): void {
+  for (let data of [hour, day]) {
+    data.closeTotalSupply = ico.totalSupply
+    data.closeLockedTokens = lockedTokens(ico)
+    data.closePositionCount = ico.positionCount
+    data.closeActivePositionCount = ico.activePositionCount
+    data.closeBackingUsd = ico.backingUsd
+    data.updatedAt = event.block.timestamp
+  }
+
+  store.save("FlyingICOHourData", hour)
+  store.save("FlyingICODayData", day)
+}
+
+// Oracle answers and balance changes revalue the backing after the handler
+// closed its buckets, see revalueAsset.
+export function closeICOBacking(
+  store: Store,
+  hour: FlyingICOHourData,
+  day: FlyingICODayData,
+  ico: FlyingICO,
+  event: Event<unknown>
+): void {
+  for (let data of [hour, day]) {
+    data.closeBackingUsd = ico.backingUsd
+    data.updatedAt = event.block.timestamp
+  }
+
+  store.save("FlyingICOHourData", hour)
+  store.save("FlyingICODayData", day)
+}
+
+export function getAssetDayData(store: Store, asset: AcceptedAsset, event: Event<unknown>): AcceptedAssetDayData {
+  let index = event.block.timestamp / DAY
+  let id = asset.id + "-" + index.toString()
+
+  return (
+    store.load<AcceptedAssetDayData>("AcceptedAssetDayData", id) ?? {
+      id,
+      date: Number(index * DAY),
+      asset: asset.id,
+      ico: asset.ico,
+
+      depositedAssets: 0n,
+      redeemedAssets: 0n,
+      releasedAssets: 0n,
+      withdrawnAssets: 0n,
+
+      openBackingAssets: asset.backingAssets,
+      closeBackingAssets: asset.backingAssets,
+      openAvailableAssets: asset.availableAssets,
+      closeAvailableAssets: asset.availableAssets,
+      closeTotalAssets: asset.totalAssets,
+
+      updatedAt: event.block.timestamp,
+    }
+  )
+}
+
+export function closeAssetDayData(
+  store: Store,
+  data: AcceptedAssetDayData,
+  asset: AcceptedAsset,
+  event: Event<unknown>
+): void {
+  data.closeBackingAssets = asset.backingAssets
+  data.closeAvailableAssets = asset.availableAssets
+  data.closeTotalAssets = asset.totalAssets
+  data.updatedAt = event.block.timestamp
+
+  store.save("AcceptedAssetDayData", data)
+}
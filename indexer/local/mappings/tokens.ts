@@ -0,0 +1,75 @@
+import { hexToString, zeroAddress } from "viem"
+import { erc20Abi, erc20BytesAbi } from "../abis"
+import { Block, Context } from "../context"
+import { Token } from "../entities"
+
+interface TokenOverride {
+  name: string
+  symbol: string
+  decimals: number
+}
+
+// Tokens whose metadata cannot be read on-chain, or reads wrong
+const OVERRIDES: Record<string, TokenOverride> = {
+  "0x9f8f72aa9304c8b593d555f12ef6589cc3a579a2": { name: "Maker", symbol: "MKR", decimals: 18 },
+  "0x89d24a6b4ccb1b6faa2625fe562bdd9a23260359": { name: "Sai Stablecoin v1.0", symbol: "SAI", decimals: 18 },
+  "0xe0b7927c4af23765cb51314a0e0521a9645f0e2a": { name: "DGD", symbol: "DGD", decimals: 9 },
+}
+
+async function fetchString(ctx: Context, address: string, field: "name" | "symbol", block: Block): Promise<string> {
+  let value = await ctx.tryCall(address, erc20Abi, field, block)
+  if (value !== null) {
+    return value
+  }
+
+  // bytes32 strings are right-padded with zeros
+  let bytes = await ctx.tryCall(address, erc20BytesAbi, field, block)
+  if (bytes !== null) {
+    let decoded = hexToString(bytes, { size: 32 })
+    if (decoded.length > 0) {
+      return decoded
+    }
+  }
+
+  return "-"
+}
+
+// Loads the token at `address`, resolving its metadata the first time it is
+// seen, see src/tokens.ts.
+export async function getToken(ctx: Context, address: string, block: Block): Promise<Token> {
+  let id = address.toLowerCase()
+  let token = ctx.store.load<Token>("Token", id)
+
+  if (!token) {
+    let known = OVERRIDES[id]
+
+    if (id === zeroAddress) {
+      token = { id, address: id, name: "Ether", symbol: "ETH", decimals: 18n }
+    } else if (known) {
+      token = { id, address: id, name: known.name, symbol: known.symbol, decimals: BigInt(known.decimals) }
+    } else {
+      let decimals = await ctx.tryCall(id, erc20Abi, "decimals", block)
+
+      token = {
+        id,
+        address: id,
+        name: await fetchString(ctx, id, "name", block),
+        symbol: await fetchString(ctx, id, "symbol", block),
+        decimals: BigInt(decimals ?? 0),
+      }
+    }
+
+    ctx.store.save("Token", token)
+  }
+
+  return token
+}
+
+// The ICO contract is an 18-decimals ERC20 configured by FlyingICO__Initialized.
+export function saveICOToken(ctx: Context, address: string, name: string, symbol: string): Token {
+  let token: Token = { id: address, address, name, symbol, decimals: 18n }
+
+  ctx.store.save("Token", token)
+
+  return token
+}
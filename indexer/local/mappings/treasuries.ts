@@ -0,0 +1,152 @@
+import { Event } from "../context"
+import { BigDecimal } from "../decimal"
+import { AcceptedAsset, Treasury, TreasuryAsset, TreasuryAssetDayData } from "../entities"
+import { Store } from "../store"
+
+const DAY = 86400n
+
+// A treasury aggregates every ICO naming it, see src/treasuries.ts.
+
+function getTreasury(store: Store, id: string, timestamp: bigint): Treasury {
+  let t = store.load<Treasury>("Treasury", id) ?? {
+    id,
+    address: id,
+    icoCount: 0n,
+    withdrawalCount: 0n,
+    withdrawnUsd: BigDecimal.zero(),
+    availableUsd: BigDecimal.zero(),
+    createdAt: timestamp,
+    updatedAt: timestamp,
+  }
+
+  t.updatedAt = timestamp
+
+  return t
+}
+
+function getTreasuryAsset(store: Store, treasuryId: string, asset: AcceptedAsset, timestamp: bigint): TreasuryAsset {
+  let id = treasuryId + "-" + asset.address
+  let a = store.load<TreasuryAsset>("TreasuryAsset", id) ?? {
+    id,
+    treasury: treasuryId,
+    address: asset.address,
+    token: asset.token,
+    symbol: asset.symbol,
+    decimals: asset.decimals,
+    releasedAssets: 0n,
+    withdrawnAssets: 0n,
+    availableAssets: 0n,
+    withdrawalCount: 0n,
+    withdrawnUsd: BigDecimal.zero(),
+    availableUsd: BigDecimal.zero(),
+    updatedAt: timestamp,
+  }
+
+  a.updatedAt = timestamp
+
+  return a
+}
+
+function getTreasuryAssetDayData(store: Store, a: TreasuryAsset, event: Event<unknown>): TreasuryAssetDayData {
+  let index = event.block.timestamp / DAY
+  let id = a.id + "-" + index.toString()
+  let data = store.load<TreasuryAssetDayData>("TreasuryAssetDayData", id) ?? {
+    id,
+    date: Number(index * DAY),
+    treasury: a.treasury,
+    treasuryAsset: a.id,
+    releasedAssets: 0n,
+    withdrawnAssets: 0n,
+    withdrawalCount: 0n,
+    withdrawnUsd: BigDecimal.zero(),
+    closeAvailableAssets: 0n,
+    updatedAt: event.block.timestamp,
+  }
+
+  data.updatedAt = event.block.timestamp
+
+  return data
+}
+
+// Links a newly initialized ICO to its treasury, returning the treasury id.
+export function recordTreasuryICO(store: Store, treasury: string, timestamp: bigint): string {
+  let t = getTreasury(store, treasury, timestamp)
+
+  t.icoCount += 1n
+
+  store.save("Treasury", t)
+
+  return t.id
+}
+
+export function recordTreasuryRelease(
+  store: Store,
+  treasuryId: string,
+  asset: AcceptedAsset,
+  assetAmount: bigint,
+  event: Event<unknown>
+): void {
+  let a = getTreasuryAsset(store, treasuryId, asset, event.block.timestamp)
+  let day = getTreasuryAssetDayData(store, a, event)
+
+  a.releasedAssets += assetAmount
+  a.availableAssets = a.releasedAssets - a.withdrawnAssets
+
+  day.releasedAssets += assetAmount
+  day.closeAvailableAssets = a.availableAssets
+
+  store.save("TreasuryAsset", a)
+  store.save("TreasuryAssetDayData", day)
+}
+
+export function recordTreasuryAssetWithdrawal(
+  store: Store,
+  treasuryId: string,
+  asset: AcceptedAsset,
+  assetAmount: bigint,
+  usdValue: BigDecimal,
+  event: Event<unknown>
+): void {
+  let t = getTreasury(store, treasuryId, event.block.timestamp)
+  let a = getTreasuryAsset(store, treasuryId, asset, event.block.timestamp)
+  let day = getTreasuryAssetDayData(store, a, event)
+
+  t.withdrawalCount += 1n
+  t.withdrawnUsd = t.withdrawnUsd.plus(usdValue)
+
+  a.withdrawnAssets += assetAmount
+  a.availableAssets = a.releasedAssets - a.withdrawnAssets
+  a.withdrawalCount += 1n
+  a.withdrawnUsd = a.withdrawnUsd.plus(usdValue)
+
+  day.withdrawnAssets += assetAmount
+  day.withdrawalCount += 1n
+  day.withdrawnUsd = day.withdrawnUsd.plus(usdValue)
+  day.closeAvailableAssets = a.availableAssets
+
+  store.save("Treasury", t)
+  store.save("TreasuryAsset", a)
+  store.save("TreasuryAssetDayData", day)
+}
+
+// Applies the change in an ICO asset's treasury-available USD value, see revalueAsset.
+export function recordTreasuryRevaluation(
+  store: Store,
+  treasuryId: string,
+  asset: AcceptedAsset,
+  availableDelta: BigDecimal,
+  timestamp: bigint
+): void {
+  if (availableDelta.equals(BigDecimal.zero())) {
+    return
+  }
+
+  let t = getTreasury(store, treasuryId, timestamp)
+  let a = getTreasuryAsset(store, treasuryId, asset, timestamp)
+
+  t.availableUsd = t.availableUsd.plus(availableDelta)
+  a.availableUsd = a.availableUsd.plus(availableDelta)
+
+  store.save("Treasury", t)
+  store.save("TreasuryAsset", a)
+}
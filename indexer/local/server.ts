@@ -0,0 +1,67 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from "node:http"
+import { graphql } from "graphql"
+import { createSchema, QueryContext } from "./graphql"
+
+interface Request {
+  query?: string
+  variables?: Record<string, unknown> | null
+  operationName?: string | null
+}
+
+async function readRequest(req: IncomingMessage): Promise<Request> {
+  if (req.method === "GET") {
+    let params = new URL(req.url ?? "/", "http://localhost").searchParams
+    let variables = params.get("variables")
+
+    return {
+      query: params.get("query") ?? undefined,
+      variables: variables ? (JSON.parse(variables) as Record<string, unknown>) : null,
+      operationName: params.get("operationName"),
+    }
+  }
+
+  let body = ""
+  for await (let chunk of req) body += chunk
+  return JSON.parse(body) as Request
+}
+
+function send(res: ServerResponse, status: number, body?: unknown): void {
+  res.writeHead(status, {
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type",
+    "Content-Type": "application/json",
+  })
+  res.end(body === undefined ? undefined : JSON.stringify(body))
+}
+
+// GraphQL over HTTP on every path, so the frontend can keep graph-node's
+// `/subgraphs/name/flying-ico` URL
+export function serve(schemaSource: string, context: QueryContext, port: number): Server {
+  let { schema, fieldResolver } = createSchema(schemaSource)
+
+  let server = createServer((req, res) => {
+    if (req.method === "OPTIONS") return send(res, 204)
+    if (req.method !== "GET" && req.method !== "POST") return send(res, 405, { errors: [{ message: "use GET or POST" }] })
+
+    readRequest(req)
+      .then(async (request) => {
+        if (!request.query) return send(res, 400, { errors: [{ message: "missing query" }] })
+
+        let result = await graphql({
+          schema,
+          source: request.query,
+          variableValues: request.variables,
+          operationName: request.operationName,
+          contextValue: context,
+          fieldResolver,
+        })
+        send(res, 200, result)
+      })
+      .catch((error: unknown) => {
+        send(res, 400, { errors: [{ message: error instanceof Error ? error.message : String(error) }] })
+      })
+  })
+
+  return server.listen(port)
+}
@@ -0,0 +1,155 @@
+import Database from "better-sqlite3"
+import { mkdirSync } from "node:fs"
+import { dirname } from "node:path"
+import { BigDecimal } from "./decimal"
+
+export type Value = string | number | boolean | bigint | BigDecimal | string[] | null
+
+export interface Entity {
+  id: string
+  [field: string]: Value | undefined
+}
+
+// bigints and decimals round-trip through JSON as tagged objects
+function replacer(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? { $bigint: value.toString() } : value
+}
+
+function reviver(_key: string, value: unknown): unknown {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    let tagged = value as Record<string, string>
+    if ("$bigint" in tagged) return BigInt(tagged.$bigint)
+    if ("$decimal" in tagged) return BigDecimal.fromString(tagged.$decimal)
+  }
+
+  return value
+}
+
+function key(type: string, id: string): string {
+  return type + ":" + id
+}
+
+interface Row {
+  type: string
+  data: string
+}
+
+// Entity store over one SQLite table, keyed by entity type and id. Like
+// graph-node, handlers get copies: `load` after `save` sees the saved state,
+// but mutating a loaded entity changes nothing until it is saved. Writes are
+// buffered until `commit`, which persists them with the indexing cursor in
+// one transaction, so a crash mid-range replays the whole range.
+export class Store {
+  private db: Database.Database
+  private pending = new Map<string, Row & { id: string }>()
+
+  constructor(path: string) {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true })
+    }
+
+    this.db = new Database(path)
+    this.db.pragma("journal_mode = WAL")
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS entities (
+        type TEXT NOT NULL,
+        id TEXT NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (type, id)
+      );
+      CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `)
+  }
+
+  // `pending: false` reads committed state only, for queries served mid-range
+  load<T extends Entity>(type: string, id: string, pending = true): T | null {
+    let buffered = pending ? this.pending.get(key(type, id)) : undefined
+    if (buffered) {
+      return JSON.parse(buffered.data, reviver) as T
+    }
+
+    let row = this.db.prepare("SELECT data FROM entities WHERE type = ? AND id = ?").get(type, id) as
+      | { data: string }
+      | undefined
+
+    return row ? (JSON.parse(row.data, reviver) as T) : null
+  }
+
+  save(type: string, entity: Entity): void {
+    this.pending.set(key(type, entity.id), { type, id: entity.id, data: JSON.stringify(entity, replacer) })
+  }
+
+  // Entities of `type` whose `field` references `id`, for @derivedFrom fields.
+  // List-valued references match when they contain `id`.
+  loadRelated<T extends Entity>(type: string, field: string, id: string, pending = true): T[] {
+    let rows = this.db
+      .prepare(
+        `SELECT data FROM entities
+         WHERE type = ? AND (
+           json_extract(data, '$.' || ?) = ?
+           OR EXISTS (SELECT 1 FROM json_each(data, '$.' || ?) WHERE json_each.value = ?)
+         )`
+      )
+      .all(type, field, id, field, id) as { data: string }[]
+
+    let entities = new Map<string, T>()
+    for (let row of rows) {
+      let entity = JSON.parse(row.data, reviver) as T
+      entities.set(entity.id, entity)
+    }
+
+    for (let buffered of pending ? this.pending.values() : []) {
+      if (buffered.type !== type) continue
+
+      let entity = JSON.parse(buffered.data, reviver) as T
+      let value = entity[field]
+      if (value === id || (Array.isArray(value) && value.includes(id))) {
+        entities.set(entity.id, entity)
+      } else {
+        entities.delete(entity.id)
+      }
+    }
+
+    return [...entities.values()]
+  }
+
+  // every committed entity of `type`, for the GraphQL layer
+  all<T extends Entity>(type: string): T[] {
+    let rows = this.db.prepare("SELECT data FROM entities WHERE type = ?").all(type) as { data: string }[]
+    return rows.map((row) => JSON.parse(row.data, reviver) as T)
+  }
+
+  getMeta(name: string): string | null {
+    let row = this.db.prepare("SELECT value FROM meta WHERE key = ?").get(name) as { value: string } | undefined
+    return row ? row.value : null
+  }
+
+  // Persists the buffered entities and `meta` atomically
+  commit(meta: Record<string, string>): void {
+    let upsertEntity = this.db.prepare(
+      "INSERT INTO entities (type, id, data) VALUES (?, ?, ?) ON CONFLICT (type, id) DO UPDATE SET data = excluded.data"
+    )
+    let upsertMeta = this.db.prepare(
+      "INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value"
+    )
+
+    this.db.transaction(() => {
+      for (let row of this.pending.values()) {
+        upsertEntity.run(row.type, row.id, row.data)
+      }
+      for (let [name, value] of Object.entries(meta)) {
+        upsertMeta.run(name, value)
+      }
+    })()
+
+    this.pending.clear()
+  }
+
+  // drops the buffered writes of a range that failed
+  rollback(): void {
+    this.pending.clear()
+  }
+}
@@ -0,0 +1,239 @@
+import { Hex, PublicClient, isAddress } from "viem"
+import { aggregatorEvents, factoryEvents, flyingIcoEvents } from "./abis"
+import { Config } from "./config"
+import { Block, Context, DataSourceKind, Event } from "./context"
+import { Store } from "./store"
+import { handleFactory__FlyingIcoCreated } from "./mappings/factory"
+import {
+  handleFlyingAssetsTakenToTreasury,
+  handleFlyingBlock,
+  handleFlyingClaimed,
+  handleFlyingDeposited,
+  handleFlyingInitialized,
+  handleFlyingPositionClosed,
+  handleFlyingRedeemed,
+  handleFlyingTransfer,
+} from "./mappings/flying-ico"
+import { handleAnswerUpdated } from "./mappings/oracle"
+
+const EVENTS: Record<DataSourceKind, typeof factoryEvents | typeof flyingIcoEvents | typeof aggregatorEvents> = {
+  FactoryFlyingICO: factoryEvents,
+  FlyingICO: flyingIcoEvents,
+  ChainlinkAggregator: aggregatorEvents,
+}
+
+interface DecodedLog {
+  address: Hex
+  blockNumber: bigint
+  logIndex: number
+  transactionHash: Hex
+  eventName: string
+  args: Record<string, unknown>
+}
+
+export interface IndexingStatus {
+  block: Block | null
+  error: string | null
+}
+
+function compareLogs(a: DecodedLog, b: DecodedLog): number {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1
+  return a.logIndex - b.logIndex
+}
+
+// viem checksums decoded addresses, the mappings expect lowercase hex like graph-ts
+function normalize(value: unknown): unknown {
+  if (typeof value === "string" && isAddress(value, { strict: false })) return value.toLowerCase()
+  if (Array.isArray(value)) return value.map(normalize)
+  return value
+}
+
+// Follows the factory, the ICOs it creates and their price feed aggregators
+// the way graph-node follows the manifest's data sources and templates:
+// logs are fetched in block ranges, handled in (block, log index) order, and
+// logs of data sources created mid-range are merged in from their creation
+// block on. There is no reorg handling, which is fine for a local anvil chain.
+export class Indexer {
+  readonly status: IndexingStatus = { block: null, error: null }
+
+  private dataSources = new Map<string, DataSourceKind>()
+  private created: { kind: DataSourceKind; address: string; block: bigint }[] = []
+  private blocks = new Map<bigint, Block>()
+  private transactions = new Map<string, Event<unknown>["transaction"]>()
+  private context: Context
+
+  constructor(
+    private client: PublicClient,
+    private store: Store,
+    private config: Config
+  ) {
+    this.context = new Context(store, client, (kind, address, block) => {
+      if (!this.dataSources.has(address)) {
+        this.dataSources.set(address, kind)
+        this.created.push({ kind, address, block })
+      }
+    })
+
+    let saved = store.getMeta("dataSources")
+    for (let [address, kind] of Object.entries(saved ? (JSON.parse(saved) as Record<string, DataSourceKind>) : {})) {
+      this.dataSources.set(address, kind)
+    }
+
+    let block = store.getMeta("block")
+    if (block) {
+      let parsed = JSON.parse(block) as { number: string; timestamp: string; hash: string }
+      this.status.block = { number: BigInt(parsed.number), timestamp: BigInt(parsed.timestamp), hash: parsed.hash }
+    }
+
+    if (config.factory) this.dataSources.set(config.factory, "FactoryFlyingICO")
+    for (let ico of config.flyingIcos) this.dataSources.set(ico, "FlyingICO")
+  }
+
+  private get cursor(): bigint {
+    let saved = this.store.getMeta("cursor")
+    return saved ? BigInt(saved) : this.config.startBlock - 1n
+  }
+
+  async run(): Promise<never> {
+    for (;;) {
+      try {
+        let head = await this.client.getBlockNumber()
+        let from = this.cursor + 1n
+
+        if (from <= head) {
+          let to = from + this.config.batchSize - 1n
+          await this.indexRange(from, to < head ? to : head)
+          continue
+        }
+      } catch (error) {
+        this.store.rollback()
+        this.created = []
+        this.status.error = error instanceof Error ? error.message : String(error)
+        console.error("indexing failed, retrying:", this.status.error)
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, this.config.pollInterval))
+    }
+  }
+
+  async indexRange(from: bigint, to: bigint): Promise<void> {
+    let queue = await this.fetchLogs([...this.dataSources], from, to)
+
+    for (let i = 0; i < queue.length; i++) {
+      await this.handle(queue[i])
+
+      if (this.created.length > 0) {
+        let created = this.created.splice(0)
+        let start = created.reduce((min, source) => (source.block < min ? source.block : min), to)
+        let logs = await this.fetchLogs(
+          created.map((source) => [source.address, source.kind]),
+          start,
+          to
+        )
+
+        // same-block logs of the new data source run right after the current one
+        let remaining = queue.slice(i + 1).concat(logs.filter((log) => log.blockNumber >= queue[i].blockNumber))
+        queue = queue.slice(0, i + 1).concat(remaining.sort(compareLogs))
+      }
+    }
+
+    let block = await this.getBlock(to)
+    for (let [address, kind] of this.dataSources) {
+      if (kind === "FlyingICO") handleFlyingBlock(this.context, address, block)
+    }
+
+    this.store.commit({
+      cursor: to.toString(),
+      dataSources: JSON.stringify(Object.fromEntries(this.dataSources)),
+      block: JSON.stringify({ ...block, number: block.number.toString(), timestamp: block.timestamp.toString() }),
+    })
+
+    this.status.block = block
+    this.status.error = null
+    this.blocks.clear()
+    this.transactions.clear()
+
+    if (queue.length > 0) {
+      console.log(`indexed blocks ${from}-${to}: ${queue.length} logs`)
+    }
+  }
+
+  private async fetchLogs(sources: [string, DataSourceKind][], from: bigint, to: bigint): Promise<DecodedLog[]> {
+    let logs: DecodedLog[] = []
+
+    for (let kind of Object.keys(EVENTS) as DataSourceKind[]) {
+      let addresses = sources.filter(([, k]) => k === kind).map(([address]) => address as Hex)
+      if (addresses.length === 0) continue
+
+      let fetched = await this.client.getLogs({ address: addresses, events: EVENTS[kind], fromBlock: from, toBlock: to })
+      for (let log of fetched) {
+        logs.push({
+          address: log.address,
+          blockNumber: log.blockNumber,
+          logIndex: log.logIndex,
+          transactionHash: log.transactionHash,
+          eventName: log.eventName,
+          args: log.args as Record<string, unknown>,
+        })
+      }
+    }
+
+    return logs.sort(compareLogs)
+  }
+
+  private async getBlock(number: bigint): Promise<Block> {
+    let block = this.blocks.get(number)
+
+    if (!block) {
+      let fetched = await this.client.getBlock({ blockNumber: number })
+      block = { number, timestamp: fetched.timestamp, hash: fetched.hash }
+      this.blocks.set(number, block)
+    }
+
+    return block
+  }
+
+  private async getTransaction(hash: Hex): Promise<Event<unknown>["transaction"]> {
+    let transaction = this.transactions.get(hash)
+
+    if (!transaction) {
+      let fetched = await this.client.getTransaction({ hash })
+      transaction = { hash, from: fetched.from.toLowerCase(), input: fetched.input }
+      this.transactions.set(hash, transaction)
+    }
+
+    return transaction
+  }
+
+  private async handle(log: DecodedLog): Promise<void> {
+    let event = {
+      address: log.address.toLowerCase(),
+      logIndex: BigInt(log.logIndex),
+      block: await this.getBlock(log.blockNumber),
+      transaction: await this.getTransaction(log.transactionHash),
+      params: Object.fromEntries(Object.entries(log.args).map(([name, value]) => [name, normalize(value)])),
+    } as Event<never>
+    let ctx = this.context
+
+    switch (log.eventName) {
+      case "Factory__FlyingIcoCreated":
+        return handleFactory__FlyingIcoCreated(ctx, event)
+      case "FlyingICO__Initialized":
+        return handleFlyingInitialized(ctx, event)
+      case "FlyingICO__Deposited":
+        return handleFlyingDeposited(ctx, event)
+      case "FlyingICO__Redeemed":
+        return handleFlyingRedeemed(ctx, event)
+      case "FlyingICO__Claimed":
+        return handleFlyingClaimed(ctx, event)
+      case "FlyingICO__PositionClosed":
+        return handleFlyingPositionClosed(ctx, event)
+      case "FlyingICO__AssetsTakenToTreasury":
+        return handleFlyingAssetsTakenToTreasury(ctx, event)
+      case "Transfer":
+        return handleFlyingTransfer(ctx, event)
+      case "AnswerUpdated":
+        return handleAnswerUpdated(ctx, event)
+    }
+  }
+}
@@ -0,0 +1,147 @@
+// Generates one subgraph manifest per deployed network from
+// `subgraph.template.yaml` and `config/networks.ts`:
+//
+//   yarn manifests            -> subgraph.<network>.yaml for every deployed network,
+//                                listing the undeployed ones it skipped
+//   yarn manifests sepolia    -> subgraph.sepolia.yaml only, fails if not deployed
+//
+// The default network is also written to `subgraph.yaml`, so plain
+// `graph codegen` / `graph build` keep working.
+
+import { readFileSync, writeFileSync } from "node:fs"
+import { join } from "node:path"
+import { parse, stringify } from "yaml"
+import { DEFAULT_NETWORK, Deployment, NetworkConfig, StandaloneICO, networks } from "../config/networks"
+
+interface DataSource {
+  kind: string
+  name: string
+  network?: string
+  source: { address?: string; abi: string; startBlock?: number }
+  mapping: Record<string, unknown>
+}
+
+interface Manifest {
+  dataSources: DataSource[]
+  templates: DataSource[]
+  [key: string]: unknown
+}
+
+const ROOT = join(__dirname, "..")
+const HEADER = "# Generated by scripts/generate-manifests.ts from subgraph.template.yaml, do not edit.\n"
+
+// Block handlers with a polling filter run every `blockHandlerEvery` blocks
+function withPolling(mapping: Record<string, unknown>, every: number): Record<string, unknown> {
+  let handlers = mapping.blockHandlers as { filter?: { kind: string; every?: number } }[] | undefined
+
+  if (!handlers) {
+    return mapping
+  }
+
+  return {
+    ...mapping,
+    blockHandlers: handlers.map((handler) =>
+      handler.filter?.kind === "polling" ? { ...handler, filter: { ...handler.filter, every } } : handler,
+    ),
+  }
+}
+
+function withNetwork(
+  template: DataSource,
+  network: string,
+  config: NetworkConfig,
+  name: string,
+  deployment?: Deployment,
+): DataSource {
+  let source: DataSource["source"] = { abi: template.source.abi }
+
+  if (deployment) {
+    source = { address: deployment.address, ...source, startBlock: deployment.startBlock }
+  }
+
+  return { kind: template.kind, name, network, source, mapping: withPolling(template.mapping, config.blockHandlerEvery) }
+}
+
+function standaloneName(ico: StandaloneICO): string {
+  return ico.name ?? `FlyingICO_${ico.address.slice(2, 10)}`
+}
+
+function buildManifest(template: Manifest, network: string, config: NetworkConfig): Manifest {
+  let factoryTemplate = template.dataSources.find((ds) => ds.name === "FactoryFlyingICO")
+  let icoTemplate = template.templates.find((ds) => ds.name === "FlyingICO")
+
+  if (!factoryTemplate || !icoTemplate) {
+    throw new Error("subgraph.template.yaml must define the FactoryFlyingICO data source and the FlyingICO template")
+  }
+
+  let dataSources = [withNetwork(factoryTemplate, network, config, factoryTemplate.name, config.factory ?? undefined)]
+
+  for (let ico of config.flyingIcos ?? []) {
+    // one created by the factory would be indexed both through the template
+    // and through its own data source
+    if (config.factory && ico.startBlock >= config.factory.startBlock) {
+      throw new Error(
+        `${network}: standalone FlyingICO ${ico.address} starts at block ${ico.startBlock}, not before the factory ` +
+          `(block ${config.factory.startBlock}); ICOs created by the factory are indexed through its template`,
+      )
+    }
+
+    dataSources.push(withNetwork(icoTemplate, network, config, standaloneName(ico), ico))
+  }
+
+  let names = new Set(dataSources.map((ds) => ds.name))
+  if (names.size !== dataSources.length || names.has(icoTemplate.name)) {
+    throw new Error(`duplicate data source names in the ${network} manifest`)
+  }
+
+  return {
+    ...template,
+    dataSources,
+    templates: template.templates.map((t) => withNetwork(t, network, config, t.name)),
+  }
+}
+
+function main(): void {
+  let template = parse(readFileSync(join(ROOT, "subgraph.template.yaml"), "utf8")) as Manifest
+  let requested = process.argv.slice(2)
+
+  for (let name of requested) {
+    if (!networks[name]) {
+      throw new Error(`unknown network "${name}", expected one of: ${Object.keys(networks).join(", ")}`)
+    }
+    if (!networks[name].factory) {
+      throw new Error(`network "${name}" has no factory deployment in config/networks.ts`)
+    }
+  }
+
+  let targets = requested.length > 0 ? requested : Object.keys(networks)
+  let skipped: string[] = []
+
+  for (let network of targets) {
+    let config = networks[network]
+
+    if (!config.factory) {
+      skipped.push(network)
+      continue
+    }
+
+    let manifest = buildManifest(template, network, config)
+    let yaml = HEADER + stringify(manifest, { lineWidth: 0, aliasDuplicateObjects: false })
+    let files = [`subgraph.${network}.yaml`]
+
+    if (network === DEFAULT_NETWORK) {
+      files.push("subgraph.yaml")
+    }
+
+    for (let file of files) {
+      writeFileSync(join(ROOT, file), yaml)
+      console.log(`- ${network}: wrote ${file}`)
+    }
+  }
+
+  if (skipped.length > 0) {
+    console.warn(`! skipped ${skipped.length} network(s) without a factory deployment: ${skipped.join(", ")}`)
+  }
+}
+
+main()
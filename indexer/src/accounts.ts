@@ -0,0 +1,173 @@
+import {
+  Account,
+  AccountAsset,
+  AccountICO,
+  AccountICOAsset,
+} from "../generated/schema"
+import { BigInt, Bytes, ethereum } from "@graphprotocol/graph-ts"
+import { recordProtocolUser } from "./protocol"
+
+const ONE = BigInt.fromI32(1)
+
+// A wallet is tracked both protocol-wide (Account, AccountAsset) and per ICO
+// (AccountICO, AccountICOAsset). Every getter touches lastActivityAt.
+
+function getAccount(user: Bytes, event: ethereum.Event): Account {
+  let id = user.toHexString()
+  let a = Account.load(id)
+
+  if (!a) {
+    a = new Account(id)
+    a.address = user
+    a.icoCount = BigInt.zero()
+    a.positionCount = BigInt.zero()
+    a.activePositionCount = BigInt.zero()
+    a.lockedTokens = BigInt.zero()
+    a.claimedTokens = BigInt.zero()
+    a.redeemedTokens = BigInt.zero()
+    a.firstActivityAt = event.block.timestamp
+
+    recordProtocolUser(event.block.timestamp)
+  }
+
+  a.lastActivityAt = event.block.timestamp
+
+  return a
+}
+
+function getAccountICO(account: Account, icoId: string, event: ethereum.Event): AccountICO {
+  let id = account.id + "-" + icoId
+  let a = AccountICO.load(id)
+
+  if (!a) {
+    a = new AccountICO(id)
+    a.account = account.id
+    a.ico = icoId
+    a.positionCount = BigInt.zero()
+    a.activePositionCount = BigInt.zero()
+    a.lockedTokens = BigInt.zero()
+    a.claimedTokens = BigInt.zero()
+    a.redeemedTokens = BigInt.zero()
+    a.firstActivityAt = event.block.timestamp
+
+    account.icoCount = account.icoCount.plus(ONE)
+  }
+
+  a.lastActivityAt = event.block.timestamp
+
+  return a
+}
+
+function getAccountAsset(account: Account, asset: Bytes): AccountAsset {
+  let id = account.id + "-" + asset.toHexString()
+  let a = AccountAsset.load(id)
+
+  if (!a) {
+    a = new AccountAsset(id)
+    a.account = account.id
+    a.asset = asset
+    a.depositedAssets = BigInt.zero()
+    a.redeemedAssets = BigInt.zero()
+  }
+
+  return a
+}
+
+function getAccountICOAsset(accountICO: AccountICO, asset: Bytes): AccountICOAsset {
+  let id = accountICO.id + "-" + asset.toHexString()
+  let a = AccountICOAsset.load(id)
+
+  if (!a) {
+    a = new AccountICOAsset(id)
+    a.accountICO = accountICO.id
+    a.acceptedAsset = accountICO.ico + "-" + asset.toHexString()
+    a.asset = asset
+    a.depositedAssets = BigInt.zero()
+    a.redeemedAssets = BigInt.zero()
+  }
+
+  return a
+}
+
+export function recordAccountDeposit(
+  event: ethereum.Event,
+  icoId: string,
+  user: Bytes,
+  asset: Bytes,
+  assetAmount: BigInt,
+  tokensMinted: BigInt
+): void {
+  let account = getAccount(user, event)
+  let accountICO = getAccountICO(account, icoId, event)
+  let accountAsset = getAccountAsset(account, asset)
+  let accountICOAsset = getAccountICOAsset(accountICO, asset)
+
+  account.positionCount = account.positionCount.plus(ONE)
+  account.activePositionCount = account.activePositionCount.plus(ONE)
+  account.lockedTokens = account.lockedTokens.plus(tokensMinted)
+
+  accountICO.positionCount = accountICO.positionCount.plus(ONE)
+  accountICO.activePositionCount = accountICO.activePositionCount.plus(ONE)
+  accountICO.lockedTokens = accountICO.lockedTokens.plus(tokensMinted)
+
+  accountAsset.depositedAssets = accountAsset.depositedAssets.plus(assetAmount)
+  accountICOAsset.depositedAssets = accountICOAsset.depositedAssets.plus(assetAmount)
+
+  account.save()
+  accountICO.save()
+  accountAsset.save()
+  accountICOAsset.save()
+}
+
+export function recordAccountRedemption(
+  event: ethereum.Event,
+  icoId: string,
+  user: Bytes,
+  asset: Bytes,
+  assetAmount: BigInt,
+  tokensBurned: BigInt
+): void {
+  let account = getAccount(user, event)
+  let accountICO = getAccountICO(account, icoId, event)
+  let accountAsset = getAccountAsset(account, asset)
+  let accountICOAsset = getAccountICOAsset(accountICO, asset)
+
+  account.lockedTokens = account.lockedTokens.minus(tokensBurned)
+  account.redeemedTokens = account.redeemedTokens.plus(tokensBurned)
+
+  accountICO.lockedTokens = accountICO.lockedTokens.minus(tokensBurned)
+  accountICO.redeemedTokens = accountICO.redeemedTokens.plus(tokensBurned)
+
+  accountAsset.redeemedAssets = accountAsset.redeemedAssets.plus(assetAmount)
+  accountICOAsset.redeemedAssets = accountICOAsset.redeemedAssets.plus(assetAmount)
+
+  account.save()
+  accountICO.save()
+  accountAsset.save()
+  accountICOAsset.save()
+}
+
+export function recordAccountClaim(event: ethereum.Event, icoId: string, user: Bytes, tokensClaimed: BigInt): void {
+  let account = getAccount(user, event)
+  let accountICO = getAccountICO(account, icoId, event)
+
+  account.lockedTokens = account.lockedTokens.minus(tokensClaimed)
+  account.claimedTokens = account.claimedTokens.plus(tokensClaimed)
+
+  accountICO.lockedTokens = accountICO.lockedTokens.minus(tokensClaimed)
+  accountICO.claimedTokens = accountICO.claimedTokens.plus(tokensClaimed)
+
+  account.save()
+  accountICO.save()
+}
+
+export function recordAccountPositionClosed(event: ethereum.Event, icoId: string, user: Bytes): void {
+  let account = getAccount(user, event)
+  let accountICO = getAccountICO(account, icoId, event)
+
+  account.activePositionCount = account.activePositionCount.minus(ONE)
+  accountICO.activePositionCount = accountICO.activePositionCount.minus(ONE)
+
+  account.save()
+  accountICO.save()
+}
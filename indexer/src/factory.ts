@@ -1,7 +1,25 @@
 import { Factory__FlyingIcoCreated as Factory__FlyingIcoCreatedEvent } from "../generated/FactoryFlyingICO/FactoryFlyingICO"
 import { FlyingICO as FlyingICOTemplate } from "../generated/templates"
-import { FactoryFlyingICO, FlyingICO } from "../generated/schema"
-import { BigInt, Bytes } from "@graphprotocol/graph-ts"
+import { Creator, FactoryFlyingICO, FlyingICO } from "../generated/schema"
+import { BigDecimal, BigInt } from "@graphprotocol/graph-ts"
+import { createFlyingICO } from "./ico"
+import { recordProtocolICO } from "./protocol"
+
+function getCreator(event: Factory__FlyingIcoCreatedEvent): Creator {
+  let id = event.transaction.from.toHexString()
+  let creator = Creator.load(id)
+
+  if (!creator) {
+    creator = new Creator(id)
+    creator.address = event.transaction.from
+    creator.icoCount = BigInt.zero()
+    creator.firstLaunchAt = event.block.timestamp
+  }
+
+  creator.lastLaunchAt = event.block.timestamp
+
+  return creator
+}
 
 export function handleFactory__FlyingIcoCreated(
   event: Factory__FlyingIcoCreatedEvent
@@ -12,6 +30,9 @@ export function handleFactory__FlyingIcoCreated(
     factory = new FactoryFlyingICO(event.address.toHex())
 
     factory.icoCount = BigInt.zero()
+    factory.backingUsd = BigDecimal.zero()
+    factory.availableUsd = BigDecimal.zero()
+    factory.tvlUsd = BigDecimal.zero()
     factory.blockNumber = event.block.number
     factory.blockTimestamp = event.block.timestamp
     factory.transactionHash = event.transaction.hash
@@ -20,22 +41,25 @@ export function handleFactory__FlyingIcoCreated(
   factory.icoCount = factory.icoCount.plus(BigInt.fromI32(1))
   factory.save()
 
-  let icoAddress = event.params.flyingIco.toHex()
-  let ico = new FlyingICO(icoAddress)
+  let icoId = event.params.flyingIco.toHex()
+  let ico = FlyingICO.load(icoId)
+
+  // the ICO emits FlyingICO__Initialized from its constructor, which may
+  // already have been handled in this block
+  if (!ico) {
+    ico = createFlyingICO(icoId, event.block.timestamp)
+    recordProtocolICO(event.block.timestamp)
+  }
+
+  let creator = getCreator(event)
+  creator.icoCount = creator.icoCount.plus(BigInt.fromI32(1))
+  creator.save()
 
   ico.factory = factory.id
-  ico.name = "-"
-  ico.symbol = "-"
-  ico.treasury = Bytes.empty()
-  ico.vestingStart = BigInt.zero()
-  ico.vestingEnd = BigInt.zero()
-  ico.tokenCap = BigInt.zero()
-  ico.tokensPerUsd = BigInt.zero()
-  ico.positionCount = BigInt.zero()
-  ico.totalSupply = BigInt.zero()
-
-  ico.createdAt = event.block.timestamp
-  ico.updatedAt = event.block.timestamp
+  ico.creator = creator.id
+  ico.creatorAddress = creator.id
+  ico.creationBlock = event.block.number
+  ico.creationTransaction = event.transaction.hash
 
   ico.save()
 
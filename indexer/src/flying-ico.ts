@@ -1,28 +1,83 @@
 import {
   FlyingICO__Initialized,
-  FlyingICO__Invested,
-  FlyingICO__Divested,
-  FlyingICO__Unlocked,
-  // FlyingICO__BuybackAndBurn
+  FlyingICO__Deposited,
+  FlyingICO__Redeemed,
+  FlyingICO__Claimed,
+  FlyingICO__PositionClosed,
+  FlyingICO__AssetsTakenToTreasury,
+  Transfer,
 } from "../generated/templates/FlyingICO/FlyingICO"
-import { ERC20 } from "../generated/templates/FlyingICO/ERC20"
-import { Asset, FlyingICO, FlyingPosition } from "../generated/schema"
-import { Address, BigInt, Bytes } from "@graphprotocol/graph-ts"
-
-function getPosition(tokenId: string, positionId: BigInt): FlyingPosition {
-  let id = tokenId + "-" + positionId.toString()
+import {
+  AcceptedAsset,
+  Claim,
+  Deposit,
+  FlyingICO,
+  FlyingPosition,
+  PositionClosure,
+  Redemption,
+  TreasuryWithdrawal,
+} from "../generated/schema"
+import { Address, BigDecimal, BigInt, Bytes, dataSource, ethereum } from "@graphprotocol/graph-ts"
+import {
+  recordAccountClaim,
+  recordAccountDeposit,
+  recordAccountPositionClosed,
+  recordAccountRedemption,
+} from "./accounts"
+import { recordTokenTransfer } from "./holders"
+import { createFlyingICO } from "./ico"
+import { updateCapUtilization } from "./milestones"
+import { updatePhase } from "./phases"
+import { createPriceFeed, getAssetPrice, getOracle, revalueAsset } from "./pricing"
+import {
+  recordProtocolAcceptedAsset,
+  recordProtocolClaim,
+  recordProtocolDeposit,
+  recordProtocolICO,
+  recordProtocolPositionClosed,
+  recordProtocolRedemption,
+  recordProtocolTreasuryWithdrawal,
+} from "./protocol"
+import { recordReferral } from "./referrals"
+import {
+  closeAssetDayData,
+  closeICOData,
+  getAssetDayData,
+  getICODayData,
+  getICOHourData,
+  recordClaim,
+  recordDeposit,
+  recordRedemption,
+  recordTreasuryWithdrawal,
+} from "./snapshots"
+import { getToken, saveICOToken } from "./tokens"
+import { recordTreasuryAssetWithdrawal, recordTreasuryICO, recordTreasuryRelease } from "./treasuries"
+import { toDecimal } from "./utils"
+
+function getPosition(icoId: string, positionId: BigInt): FlyingPosition {
+  let id = icoId + "-" + positionId.toString()
   let p = FlyingPosition.load(id)
 
   if (!p) {
     p = new FlyingPosition(id)
-    p.token = tokenId
+    p.ico = icoId
     p.positionId = positionId
     p.user = Bytes.empty()
+    p.account = p.user.toHexString()
     p.assetAmount = BigInt.zero()
     p.tokenAmount = BigInt.zero()
     p.vestingAmount = BigInt.zero()
     p.asset = Bytes.empty()
 
+    p.initialAssetAmount = BigInt.zero()
+    p.initialTokenAmount = BigInt.zero()
+    p.depositUsdValue = BigDecimal.zero()
+    p.assetPriceUsd = BigDecimal.zero()
+    p.redeemedTokens = BigInt.zero()
+    p.redeemedAssets = BigInt.zero()
+    p.claimedTokens = BigInt.zero()
+    p.claimedAssets = BigInt.zero()
+
     p.isClosed = false
     p.createdAt = BigInt.zero()
     p.updatedAt = BigInt.zero()
@@ -31,168 +86,470 @@ function getPosition(tokenId: string, positionId: BigInt): FlyingPosition {
   return p
 }
 
-function getAsset(tokenId: string, assetAddress: Bytes): Asset {
-  let id = tokenId + "-" + assetAddress.toHexString()
-  let a = Asset.load(id)
+function activityId(event: ethereum.Event): Bytes {
+  return event.transaction.hash.concatI32(event.logIndex.toI32())
+}
+
+function getAsset(icoId: string, assetAddress: Bytes): AcceptedAsset {
+  let id = icoId + "-" + assetAddress.toHexString()
+  let a = AcceptedAsset.load(id)
 
   if (!a) {
-    a = new Asset(id)
-    a.ico = tokenId
+    a = new AcceptedAsset(id)
+    a.ico = icoId
     a.address = assetAddress
 
-    if (assetAddress.toHexString() == "0x0000000000000000000000000000000000000000") {
-      a.decimals = BigInt.fromI32(18)
-      a.symbol = "ETH"
-    } else {
-      let address = Address.fromBytes(assetAddress)
-      let erc20 = ERC20.bind(address)
-      let decimals = BigInt.zero()
-      let symbol = "-"
-
-      let decimalsCall = erc20.try_decimals()
-      if (!decimalsCall.reverted) {
-        decimals = BigInt.fromI32(decimalsCall.value)
-      }
-
-      let symbolCall = erc20.try_symbol()
-      if (!symbolCall.reverted) {
-        symbol = symbolCall.value
-      }
-
-      a.decimals = decimals
-      a.symbol = symbol
-    }
-
-    a.createdAt = BigInt.zero()
-    a.updatedAt = BigInt.zero()
+    let token = getToken(Address.fromBytes(assetAddress))
+    a.token = token.id
+    a.symbol = token.symbol
+    a.decimals = token.decimals
+
+    a.depositedAssets = BigInt.zero()
+    a.redeemedAssets = BigInt.zero()
+    a.releasedAssets = BigInt.zero()
+    a.withdrawnAssets = BigInt.zero()
+    a.depositedUsd = BigDecimal.zero()
+    a.lastPriceUsd = BigDecimal.zero()
     a.totalAssets = BigInt.zero()
     a.backingAssets = BigInt.zero()
+    a.availableAssets = BigInt.zero()
+    a.backingUsd = BigDecimal.zero()
+    a.availableUsd = BigDecimal.zero()
+    a.totalUsd = BigDecimal.zero()
+    a.createdAt = BigInt.zero()
+    a.updatedAt = BigInt.zero()
   }
 
   return a
 }
 
+// Mirrors the contract's balance sheet for one asset:
+// - backingBalances[asset] = deposited - redeemed - released
+// - treasury-available (balance - backingBalances) = released - withdrawn
+// Assets sent to the contract outside of deposits are not observable here.
+function refreshAssetBalances(a: AcceptedAsset): void {
+  a.backingAssets = a.depositedAssets.minus(a.redeemedAssets).minus(a.releasedAssets)
+  a.availableAssets = a.releasedAssets.minus(a.withdrawnAssets)
+  a.totalAssets = a.backingAssets.plus(a.availableAssets)
+}
+
+// _computeTokenAmount mints floor(usdValue * tokensPerUsd) tokens, so the USD
+// value of a deposit (rounded down by at most one token's worth) is
+// tokensMinted / tokensPerUsd. tokensPerUsd is stored in whole tokens.
+function depositUsdValue(ico: FlyingICO | null, tokensMinted: BigInt): BigDecimal {
+  if (!ico || ico.tokensPerUsd.isZero()) {
+    return BigDecimal.zero()
+  }
+
+  return toDecimal(tokensMinted, 18).div(ico.tokensPerUsd.toBigDecimal())
+}
+
 export function handleFlyingInitialized(event: FlyingICO__Initialized): void {
-  let tokenId = event.address.toHex()
-  let token = FlyingICO.load(tokenId)
-
-  if (token) {
-    token.name = event.params.name
-    token.symbol = event.params.symbol
-    token.tokenCap = event.params.tokenCap
-    token.tokensPerUsd = event.params.tokensPerUsd
-    token.treasury = event.params.treasury
-    token.vestingStart = event.params.vestingStart
-    token.vestingEnd = event.params.vestingEnd
-    token.updatedAt = event.block.timestamp
-
-    let assets = event.params.acceptedAssets
-    for (let i = 0; i < assets.length; i++) {
-      let assetAddress = assets[i]
-      let a = getAsset(tokenId, assetAddress)
-
-      a.createdAt = event.block.timestamp
-      a.updatedAt = event.block.timestamp
-
-      a.save()
-    }
+  let icoId = event.address.toHex()
+  let ico = FlyingICO.load(icoId)
 
-    token.save()
+  // ICOs deployed outside the factory are indexed from their own data source
+  if (!ico) {
+    ico = createFlyingICO(icoId, event.block.timestamp)
+    recordProtocolICO(event.block.timestamp)
   }
+
+  ico.name = event.params.name
+  ico.symbol = event.params.symbol
+  ico.token = saveICOToken(event.address, event.params.name, event.params.symbol).id
+  // the constructor runs in the deployment transaction
+  ico.creatorAddress = event.transaction.from.toHexString()
+  ico.creationBlock = event.block.number
+  ico.creationTransaction = event.transaction.hash
+  ico.tokenCap = event.params.tokenCap
+  // mirrors _TOKENS_CAP = tokenCap_ * _WAD
+  ico.tokenCapAmount = event.params.tokenCap.times(BigInt.fromI32(10).pow(18))
+  ico.tokensPerUsd = event.params.tokensPerUsd
+  ico.treasury = recordTreasuryICO(event.params.treasury, event.block.timestamp)
+  ico.sequencer = event.params.sequencer
+  ico.vestingStart = event.params.vestingStart
+  ico.vestingEnd = event.params.vestingEnd
+  ico.updatedAt = event.block.timestamp
+
+  let assets = event.params.acceptedAssets
+  let feeds = event.params.priceFeeds
+  let frequencies = event.params.frequencies
+  let symbols: string[] = []
+  for (let i = 0; i < assets.length; i++) {
+    let a = getAsset(icoId, assets[i])
+    let oracle = getOracle(feeds[i], event)
+
+    let feed = createPriceFeed(
+      a.id,
+      icoId,
+      feeds[i],
+      oracle,
+      frequencies[i],
+      event.params.sequencer,
+      event.block.timestamp
+    )
+
+    a.priceFeed = feed.id
+    a.createdAt = event.block.timestamp
+    a.updatedAt = event.block.timestamp
+
+    a.save()
+
+    recordProtocolAcceptedAsset(a, event.block.timestamp)
+    symbols.push(a.symbol)
+  }
+
+  ico.assetSymbols = symbols.join(" ")
+
+  ico.save()
 }
 
-export function handleFlyingInvested(event: FlyingICO__Invested): void {
-  let tokenId = event.address.toHex()
-  let token = FlyingICO.load(tokenId)
-  let pos = getPosition(tokenId, event.params.positionId)
-  let asset = getAsset(tokenId, event.params.asset)
+export function handleFlyingDeposited(event: FlyingICO__Deposited): void {
+  let icoId = event.address.toHex()
+  let ico = FlyingICO.load(icoId)
+  let pos = getPosition(icoId, event.params.positionId)
+  let asset = getAsset(icoId, event.params.asset)
+
+  let usdValue = depositUsdValue(ico, event.params.tokensMinted)
+  let assetAmount = toDecimal(event.params.assetAmount, asset.decimals.toI32())
+  let assetPriceUsd = assetAmount.equals(BigDecimal.zero()) ? BigDecimal.zero() : usdValue.div(assetAmount)
+  let tokensPerAsset = assetAmount.equals(BigDecimal.zero())
+    ? BigDecimal.zero()
+    : toDecimal(event.params.tokensMinted, 18).div(assetAmount)
 
   pos.user = event.params.user
-  pos.positionId = event.params.positionId
+  pos.account = event.params.user.toHexString()
+  pos.asset = event.params.asset
   pos.assetAmount = event.params.assetAmount
   pos.tokenAmount = event.params.tokensMinted
   pos.vestingAmount = event.params.tokensMinted
-  pos.asset = event.params.asset
+  pos.initialAssetAmount = event.params.assetAmount
+  pos.initialTokenAmount = event.params.tokensMinted
+  pos.depositUsdValue = usdValue
+  pos.assetPriceUsd = assetPriceUsd
   pos.createdAt = event.block.timestamp
   pos.updatedAt = event.block.timestamp
 
   pos.save()
 
-  if (token) {
-    token.totalSupply = token.totalSupply.plus(event.params.tokensMinted)
-    token.positionCount = token.positionCount.plus(BigInt.fromI32(1))
-    token.updatedAt = event.block.timestamp
-
-    token.save()
+  let deposit = new Deposit(activityId(event))
+  deposit.ico = icoId
+  deposit.position = pos.id
+  deposit.sender = event.params.user
+  deposit.asset = event.params.asset
+  deposit.assetAmount = event.params.assetAmount
+  deposit.tokensMinted = event.params.tokensMinted
+  deposit.usdValue = usdValue
+  deposit.assetPriceUsd = assetPriceUsd
+  deposit.tokensPerAsset = tokensPerAsset
+  deposit.blockNumber = event.block.number
+  deposit.timestamp = event.block.timestamp
+  deposit.transactionHash = event.transaction.hash
+  deposit.logIndex = event.logIndex
+  deposit.referrer = recordReferral(deposit, event)
+
+  deposit.save()
+
+  recordAccountDeposit(
+    event,
+    icoId,
+    event.params.user,
+    event.params.asset,
+    event.params.assetAmount,
+    event.params.tokensMinted
+  )
+
+  if (ico) {
+    updatePhase(ico, event.block)
+
+    let hour = getICOHourData(ico, event)
+    let day = getICODayData(ico, event)
+
+    ico.totalSupply = ico.totalSupply.plus(event.params.tokensMinted)
+    ico.positionCount = ico.positionCount.plus(BigInt.fromI32(1))
+    ico.activePositionCount = ico.activePositionCount.plus(BigInt.fromI32(1))
+    updateCapUtilization(ico, event)
+    ico.updatedAt = event.block.timestamp
+
+    ico.save()
+
+    recordDeposit(hour, event.params.tokensMinted)
+    recordDeposit(day, event.params.tokensMinted)
+    closeICOData(hour, ico, event)
+    closeICOData(day, ico, event)
   }
 
-  if (asset) {
-    asset.totalAssets = asset.totalAssets.plus(event.params.assetAmount)
-    asset.backingAssets = asset.backingAssets.plus(event.params.assetAmount)
-    asset.updatedAt = event.block.timestamp
+  let assetDay = getAssetDayData(asset, event)
 
-    asset.save()
-  }
+  asset.depositedAssets = asset.depositedAssets.plus(event.params.assetAmount)
+  asset.depositedUsd = asset.depositedUsd.plus(usdValue)
+  asset.lastPriceUsd = assetPriceUsd
+  refreshAssetBalances(asset)
+  revalueAsset(asset, event)
+  asset.updatedAt = event.block.timestamp
+
+  asset.save()
+
+  assetDay.depositedAssets = assetDay.depositedAssets.plus(event.params.assetAmount)
+  closeAssetDayData(assetDay, asset, event)
+
+  recordProtocolDeposit(event, asset, event.params.assetAmount, event.params.tokensMinted, usdValue)
 }
 
-export function handleFlyingDivested(event: FlyingICO__Divested): void {
-  let tokenId = event.address.toHex()
-  let token = FlyingICO.load(tokenId)
-  let pos = getPosition(tokenId, event.params.positionId)
-  let asset = getAsset(tokenId, pos.asset)
+export function handleFlyingRedeemed(event: FlyingICO__Redeemed): void {
+  let icoId = event.address.toHex()
+  let ico = FlyingICO.load(icoId)
+  let pos = getPosition(icoId, event.params.positionId)
+  let asset = getAsset(icoId, event.params.assetReturned)
 
   pos.assetAmount = pos.assetAmount.minus(event.params.assetReturnedAmount)
   pos.tokenAmount = pos.tokenAmount.minus(event.params.tokensBurned)
+  pos.redeemedTokens = pos.redeemedTokens.plus(event.params.tokensBurned)
+  pos.redeemedAssets = pos.redeemedAssets.plus(event.params.assetReturnedAmount)
   pos.updatedAt = event.block.timestamp
 
+  if (ico) {
+    updatePhase(ico, event.block)
+
+    // mirrors _exitPosition: the vesting amount only shrinks before vesting starts
+    if (event.block.timestamp < ico.vestingStart) {
+      pos.vestingAmount = pos.vestingAmount.minus(event.params.tokensBurned)
+    }
+
+    let hour = getICOHourData(ico, event)
+    let day = getICODayData(ico, event)
+
+    ico.totalSupply = ico.totalSupply.minus(event.params.tokensBurned)
+    ico.tokensRedeemed = ico.tokensRedeemed.plus(event.params.tokensBurned)
+    updateCapUtilization(ico, event)
+    ico.updatedAt = event.block.timestamp
+
+    ico.save()
+
+    recordRedemption(hour, event.params.tokensBurned)
+    recordRedemption(day, event.params.tokensBurned)
+    closeICOData(hour, ico, event)
+    closeICOData(day, ico, event)
+  }
+
   pos.save()
 
-  if (token) {
-    token.totalSupply = token.totalSupply.minus(event.params.tokensBurned)
-    token.updatedAt = event.block.timestamp
+  let redemption = new Redemption(activityId(event))
+  redemption.ico = icoId
+  redemption.position = pos.id
+  redemption.sender = event.params.user
+  redemption.asset = event.params.assetReturned
+  redemption.tokensBurned = event.params.tokensBurned
+  redemption.assetAmount = event.params.assetReturnedAmount
+  redemption.blockNumber = event.block.number
+  redemption.timestamp = event.block.timestamp
+  redemption.transactionHash = event.transaction.hash
+  redemption.logIndex = event.logIndex
+
+  redemption.save()
+
+  recordAccountRedemption(
+    event,
+    icoId,
+    event.params.user,
+    event.params.assetReturned,
+    event.params.assetReturnedAmount,
+    event.params.tokensBurned
+  )
+
+  let assetDay = getAssetDayData(asset, event)
+
+  // redeemed assets leave the contract and stop backing the PUT
+  asset.redeemedAssets = asset.redeemedAssets.plus(event.params.assetReturnedAmount)
+  refreshAssetBalances(asset)
+  revalueAsset(asset, event)
+  asset.updatedAt = event.block.timestamp
+
+  asset.save()
+
+  assetDay.redeemedAssets = assetDay.redeemedAssets.plus(event.params.assetReturnedAmount)
+  closeAssetDayData(assetDay, asset, event)
+
+  recordProtocolRedemption(event, asset, event.params.assetReturnedAmount, event.params.tokensBurned)
+}
+
+export function handleFlyingClaimed(event: FlyingICO__Claimed): void {
+  let icoId = event.address.toHex()
+  let ico = FlyingICO.load(icoId)
+  let pos = getPosition(icoId, event.params.positionId)
+  let asset = getAsset(icoId, event.params.assetReleased)
+
+  pos.assetAmount = pos.assetAmount.minus(event.params.assetReleasedAmount)
+  pos.tokenAmount = pos.tokenAmount.minus(event.params.tokensClaimed)
+  pos.claimedTokens = pos.claimedTokens.plus(event.params.tokensClaimed)
+  pos.claimedAssets = pos.claimedAssets.plus(event.params.assetReleasedAmount)
+  pos.updatedAt = event.block.timestamp
 
-    if (event.block.timestamp < token.vestingStart) {
-        pos.vestingAmount = pos.vestingAmount.minus(event.params.tokensBurned)
+  if (ico) {
+    updatePhase(ico, event.block)
+
+    if (event.block.timestamp < ico.vestingStart) {
+      pos.vestingAmount = pos.vestingAmount.minus(event.params.tokensClaimed)
     }
 
-    token.save()
+    let hour = getICOHourData(ico, event)
+    let day = getICODayData(ico, event)
+
+    ico.tokensClaimed = ico.tokensClaimed.plus(event.params.tokensClaimed)
+    ico.updatedAt = event.block.timestamp
+
+    ico.save()
+
+    recordClaim(hour, event.params.tokensClaimed)
+    recordClaim(day, event.params.tokensClaimed)
+    closeICOData(hour, ico, event)
+    closeICOData(day, ico, event)
   }
 
-  if (asset) {
-    asset.backingAssets = asset.backingAssets.plus(event.params.assetReturnedAmount)
-    asset.updatedAt = event.block.timestamp
+  pos.save()
+
+  let claim = new Claim(activityId(event))
+  claim.ico = icoId
+  claim.position = pos.id
+  claim.sender = event.params.user
+  claim.asset = event.params.assetReleased
+  claim.tokensClaimed = event.params.tokensClaimed
+  claim.assetAmount = event.params.assetReleasedAmount
+  claim.blockNumber = event.block.number
+  claim.timestamp = event.block.timestamp
+  claim.transactionHash = event.transaction.hash
+  claim.logIndex = event.logIndex
+
+  claim.save()
+
+  recordAccountClaim(event, icoId, event.params.user, event.params.tokensClaimed)
+
+  let assetDay = getAssetDayData(asset, event)
+
+  // released assets stay in the contract but no longer back the PUT
+  asset.releasedAssets = asset.releasedAssets.plus(event.params.assetReleasedAmount)
+  refreshAssetBalances(asset)
+  revalueAsset(asset, event)
+  asset.updatedAt = event.block.timestamp
 
-    asset.save()
+  asset.save()
+
+  assetDay.releasedAssets = assetDay.releasedAssets.plus(event.params.assetReleasedAmount)
+  closeAssetDayData(assetDay, asset, event)
+
+  recordProtocolClaim(event, asset, event.params.assetReleasedAmount, event.params.tokensClaimed)
+
+  if (ico) {
+    recordTreasuryRelease(ico.treasury, asset, event.params.assetReleasedAmount, event)
   }
 }
 
-export function handleFlyingUnlocked(event: FlyingICO__Unlocked): void {
-  let tokenId = event.address.toHex()
-  let token = FlyingICO.load(tokenId)
-  let pos = getPosition(tokenId, event.params.positionId)
-  let asset = getAsset(tokenId, pos.asset)
+export function handleFlyingPositionClosed(event: FlyingICO__PositionClosed): void {
+  let icoId = event.address.toHex()
+  let ico = FlyingICO.load(icoId)
+  let pos = getPosition(icoId, event.params.positionId)
 
-  pos.assetAmount = pos.assetAmount.minus(event.params.assetReleasedAmount)
-  pos.tokenAmount = pos.tokenAmount.minus(event.params.tokensUnlocked)
+  pos.isClosed = true
+  pos.closedAt = event.block.timestamp
   pos.updatedAt = event.block.timestamp
 
   pos.save()
 
-  if (token) {
-    token.tokensUnlocked = token.tokensUnlocked.plus(event.params.tokensUnlocked)
-    token.updatedAt = event.block.timestamp
+  let closure = new PositionClosure(activityId(event))
+  closure.ico = icoId
+  closure.position = pos.id
+  closure.sender = event.params.user
+  closure.asset = pos.asset
+  closure.blockNumber = event.block.number
+  closure.timestamp = event.block.timestamp
+  closure.transactionHash = event.transaction.hash
+  closure.logIndex = event.logIndex
 
-    if (event.block.timestamp < token.vestingStart) {
-        pos.vestingAmount = pos.vestingAmount.minus(event.params.tokensUnlocked)
-    }
+  closure.save()
 
-    token.save()
+  recordAccountPositionClosed(event, icoId, event.params.user)
+  recordProtocolPositionClosed(event)
+
+  if (ico) {
+    let hour = getICOHourData(ico, event)
+    let day = getICODayData(ico, event)
+
+    ico.activePositionCount = ico.activePositionCount.minus(BigInt.fromI32(1))
+    ico.updatedAt = event.block.timestamp
+
+    ico.save()
+
+    closeICOData(hour, ico, event)
+    closeICOData(day, ico, event)
+  }
+}
+
+export function handleFlyingAssetsTakenToTreasury(event: FlyingICO__AssetsTakenToTreasury): void {
+  let icoId = event.address.toHex()
+  let ico = FlyingICO.load(icoId)
+  let asset = getAsset(icoId, event.params.asset)
+  let treasuryId = ico ? ico.treasury : event.transaction.from.toHexString()
+  let usdValue = toDecimal(event.params.assetAmount, asset.decimals.toI32()).times(getAssetPrice(asset))
+
+  let withdrawal = new TreasuryWithdrawal(activityId(event))
+  withdrawal.ico = icoId
+  withdrawal.sender = event.transaction.from
+  withdrawal.asset = event.params.asset
+  withdrawal.treasury = treasuryId
+  withdrawal.assetAmount = event.params.assetAmount
+  withdrawal.usdValue = usdValue
+  withdrawal.blockNumber = event.block.number
+  withdrawal.timestamp = event.block.timestamp
+  withdrawal.transactionHash = event.transaction.hash
+  withdrawal.logIndex = event.logIndex
+
+  withdrawal.save()
+
+  if (ico) {
+    let hour = getICOHourData(ico, event)
+    let day = getICODayData(ico, event)
+
+    recordTreasuryWithdrawal(hour)
+    recordTreasuryWithdrawal(day)
+    closeICOData(hour, ico, event)
+    closeICOData(day, ico, event)
+  }
+
+  let assetDay = getAssetDayData(asset, event)
+
+  asset.withdrawnAssets = asset.withdrawnAssets.plus(event.params.assetAmount)
+  refreshAssetBalances(asset)
+  revalueAsset(asset, event)
+  asset.updatedAt = event.block.timestamp
+
+  asset.save()
+
+  assetDay.withdrawnAssets = assetDay.withdrawnAssets.plus(event.params.assetAmount)
+  closeAssetDayData(assetDay, asset, event)
+
+  recordProtocolTreasuryWithdrawal(event, asset, event.params.assetAmount)
+  recordTreasuryAssetWithdrawal(treasuryId, asset, event.params.assetAmount, usdValue, event)
+}
+
+export function handleFlyingTransfer(event: Transfer): void {
+  let ico = FlyingICO.load(event.address.toHex())
+
+  if (!ico) {
+    return
   }
 
-  if (asset) {
-    asset.totalAssets = asset.totalAssets.minus(event.params.assetReleasedAmount)
-    asset.updatedAt = event.block.timestamp
+  recordTokenTransfer(ico, event.params.from, event.params.to, event.params.value, event)
+  ico.updatedAt = event.block.timestamp
+
+  ico.save()
+}
+
+export function handleFlyingBlock(block: ethereum.Block): void {
+  let ico = FlyingICO.load(dataSource.address().toHex())
+
+  if (ico && updatePhase(ico, block)) {
+    ico.updatedAt = block.timestamp
 
-    asset.save()
+    ico.save()
   }
 }
@@ -0,0 +1,70 @@
+import { FlyingICO, TokenHolder } from "../generated/schema"
+import { Address, BigInt, ethereum } from "@graphprotocol/graph-ts"
+
+const ONE = BigInt.fromI32(1)
+
+// Tokens are minted to and burned from the ICO contract itself, and only leave
+// it through `claim`. The contract's balance is the locked supply; every other
+// balance is circulating and belongs to a TokenHolder.
+
+function getHolder(icoId: string, holder: Address, event: ethereum.Event): TokenHolder {
+  let id = icoId + "-" + holder.toHexString()
+  let h = TokenHolder.load(id)
+
+  if (!h) {
+    h = new TokenHolder(id)
+    h.ico = icoId
+    h.address = holder
+    h.balance = BigInt.zero()
+    h.transferCount = BigInt.zero()
+    h.createdAt = event.block.timestamp
+  }
+
+  h.transferCount = h.transferCount.plus(ONE)
+  h.updatedAt = event.block.timestamp
+
+  return h
+}
+
+function moveHolderBalance(ico: FlyingICO, holder: Address, delta: BigInt, event: ethereum.Event): void {
+  let h = getHolder(ico.id, holder, event)
+  let wasHolder = !h.balance.isZero()
+
+  h.balance = h.balance.plus(delta)
+
+  let isHolder = !h.balance.isZero()
+
+  if (!wasHolder && isHolder) {
+    ico.holderCount = ico.holderCount.plus(ONE)
+  } else if (wasHolder && !isHolder) {
+    ico.holderCount = ico.holderCount.minus(ONE)
+  }
+
+  ico.circulatingSupply = ico.circulatingSupply.plus(delta)
+
+  h.save()
+}
+
+// Applies one side of a transfer; the zero address (mint/burn) is skipped.
+function moveBalance(ico: FlyingICO, account: Address, delta: BigInt, event: ethereum.Event): void {
+  if (account.equals(Address.zero())) {
+    return
+  }
+
+  if (account.equals(event.address)) {
+    ico.lockedSupply = ico.lockedSupply.plus(delta)
+  } else {
+    moveHolderBalance(ico, account, delta, event)
+  }
+}
+
+export function recordTokenTransfer(
+  ico: FlyingICO,
+  from: Address,
+  to: Address,
+  value: BigInt,
+  event: ethereum.Event
+): void {
+  moveBalance(ico, from, value.neg(), event)
+  moveBalance(ico, to, value, event)
+}
@@ -0,0 +1,49 @@
+import { FlyingICO } from "../generated/schema"
+import { Address, BigDecimal, BigInt, Bytes } from "@graphprotocol/graph-ts"
+
+// Placeholder for an ICO whose FlyingICO__Initialized event has not been
+// handled yet. Factory-launched ICOs set `factory`, standalone ones leave it null.
+export function createFlyingICO(id: string, timestamp: BigInt): FlyingICO {
+  let ico = new FlyingICO(id)
+
+  ico.name = "-"
+  ico.symbol = "-"
+  ico.token = id
+  ico.creationBlock = BigInt.zero()
+  ico.creationTransaction = Bytes.empty()
+  ico.creatorAddress = ""
+  ico.assetSymbols = ""
+  ico.treasury = Address.zero().toHexString()
+  ico.sequencer = Bytes.empty()
+  ico.vestingStart = BigInt.zero()
+  ico.vestingEnd = BigInt.zero()
+  ico.tokenCap = BigInt.zero()
+  ico.tokensPerUsd = BigInt.zero()
+  ico.tokenCapAmount = BigInt.zero()
+  ico.capUtilizationBps = 0
+  ico.highestMilestoneBps = 0
+  ico.positionCount = BigInt.zero()
+  ico.activePositionCount = BigInt.zero()
+  ico.totalSupply = BigInt.zero()
+  ico.tokensRedeemed = BigInt.zero()
+  ico.tokensClaimed = BigInt.zero()
+  ico.lockedSupply = BigInt.zero()
+  ico.circulatingSupply = BigInt.zero()
+  ico.holderCount = BigInt.zero()
+  ico.backingUsd = BigDecimal.zero()
+  ico.availableUsd = BigDecimal.zero()
+  ico.tvlUsd = BigDecimal.zero()
+
+  ico.phase = "PRE_VESTING"
+  ico.phaseChangedAt = timestamp
+
+  ico.createdAt = timestamp
+  ico.updatedAt = timestamp
+
+  return ico
+}
+
+export function lockedTokens(ico: FlyingICO): BigInt {
+  // claimed tokens stay in the supply but are no longer held under a PUT
+  return ico.totalSupply.minus(ico.tokensClaimed)
+}
@@ -0,0 +1,39 @@
+import { FlyingICO, RaiseMilestone } from "../generated/schema"
+import { BigInt, ethereum } from "@graphprotocol/graph-ts"
+
+const BPS = BigInt.fromI32(10000)
+const MILESTONES: i32[] = [2500, 5000, 7500, 9000, 10000]
+
+// Refreshes the ICO's cap utilization after its supply changed, and records
+// every milestone crossed for the first time. The caller saves the ICO.
+export function updateCapUtilization(ico: FlyingICO, event: ethereum.Event): void {
+  if (ico.tokenCapAmount.isZero()) {
+    return
+  }
+
+  // the contract caps totalSupply, so redemptions free room under the cap
+  let bps = ico.totalSupply.times(BPS).div(ico.tokenCapAmount).toI32()
+  ico.capUtilizationBps = bps
+
+  for (let i = 0; i < MILESTONES.length; i++) {
+    let threshold = MILESTONES[i]
+
+    if (threshold <= ico.highestMilestoneBps || threshold > bps) {
+      continue
+    }
+
+    let milestone = new RaiseMilestone(ico.id + "-" + threshold.toString())
+    milestone.ico = ico.id
+    milestone.thresholdBps = threshold
+    milestone.totalSupply = ico.totalSupply
+    milestone.capUtilizationBps = bps
+    milestone.positionCount = ico.positionCount
+    milestone.blockNumber = event.block.number
+    milestone.timestamp = event.block.timestamp
+    milestone.transactionHash = event.transaction.hash
+
+    milestone.save()
+
+    ico.highestMilestoneBps = threshold
+  }
+}
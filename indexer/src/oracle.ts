@@ -0,0 +1,39 @@
+import { AnswerUpdated } from "../generated/templates/ChainlinkAggregator/ChainlinkAggregator"
+import { AcceptedAsset, Oracle } from "../generated/schema"
+import { dataSource } from "@graphprotocol/graph-ts"
+import { revalueAsset } from "./pricing"
+import { toDecimal } from "./utils"
+
+export function handleAnswerUpdated(event: AnswerUpdated): void {
+  // the aggregator reports for the feed (proxy) the ICOs were configured with
+  let oracle = Oracle.load(dataSource.context().getString("feed"))
+
+  if (!oracle) {
+    return
+  }
+
+  oracle.latestAnswer = event.params.current
+  oracle.price = toDecimal(event.params.current, oracle.decimals)
+  oracle.roundId = event.params.roundId
+  oracle.updatedAt = event.params.updatedAt
+
+  oracle.save()
+
+  let feeds = oracle.feeds.load()
+  for (let i = 0; i < feeds.length; i++) {
+    let feed = feeds[i]
+    feed.staleAt = oracle.updatedAt.plus(feed.frequency)
+    feed.updatedAt = event.block.timestamp
+
+    feed.save()
+
+    let asset = AcceptedAsset.load(feed.asset)
+
+    if (asset) {
+      revalueAsset(asset, event)
+      asset.updatedAt = event.block.timestamp
+
+      asset.save()
+    }
+  }
+}
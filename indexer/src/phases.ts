@@ -0,0 +1,52 @@
+import { FlyingICO, PhaseTransition } from "../generated/schema"
+import { BigInt, ethereum } from "@graphprotocol/graph-ts"
+import { lockedTokens } from "./ico"
+
+const PRE_VESTING = "PRE_VESTING"
+const VESTING = "VESTING"
+const LOCKED = "LOCKED"
+
+function recordTransition(ico: FlyingICO, phase: string, at: BigInt, redeemable: BigInt, block: ethereum.Block): void {
+  let transition = new PhaseTransition(ico.id + "-" + phase)
+  transition.ico = ico.id
+  transition.phase = phase
+  transition.previousPhase = ico.phase
+  transition.timestamp = at
+  transition.observedAt = block.timestamp
+  transition.blockNumber = block.number
+  transition.lockedTokens = lockedTokens(ico)
+  transition.redeemableTokens = redeemable
+  transition.backingUsd = ico.backingUsd
+
+  transition.save()
+
+  ico.phase = phase
+  ico.phaseChangedAt = at
+}
+
+// Moves the ICO into the vesting phase of `block`, recording every boundary
+// crossed since it was last updated. Call it before a handler changes the
+// ICO's supply so transitions snapshot the state at the boundary. The caller
+// saves the ICO; returns whether the phase changed.
+export function updatePhase(ico: FlyingICO, block: ethereum.Block): boolean {
+  // not initialized yet, the vesting schedule is unknown
+  if (ico.vestingEnd.isZero()) {
+    return false
+  }
+
+  let changed = false
+
+  // the vesting rate is still 100%, so every locked token is redeemable
+  if (ico.phase == PRE_VESTING && block.timestamp >= ico.vestingStart) {
+    recordTransition(ico, VESTING, ico.vestingStart, lockedTokens(ico), block)
+    changed = true
+  }
+
+  // the vesting rate reaches 0 and nothing is redeemable anymore
+  if (ico.phase == VESTING && block.timestamp >= ico.vestingEnd) {
+    recordTransition(ico, LOCKED, ico.vestingEnd, BigInt.zero(), block)
+    changed = true
+  }
+
+  return changed
+}
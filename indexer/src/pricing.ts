@@ -0,0 +1,168 @@
+import { ChainlinkAggregator } from "../generated/templates/FlyingICO/ChainlinkAggregator"
+import { ChainlinkAggregator as ChainlinkAggregatorTemplate } from "../generated/templates"
+import { AcceptedAsset, FactoryFlyingICO, FlyingICO, Oracle, PriceFeed } from "../generated/schema"
+import { Address, BigDecimal, BigInt, DataSourceContext, ethereum } from "@graphprotocol/graph-ts"
+import { recordProtocolRevaluation } from "./protocol"
+import { closeICOBacking, getICODayData, getICOHourData } from "./snapshots"
+import { recordTreasuryRevaluation } from "./treasuries"
+import { toDecimal } from "./utils"
+
+// ChainlinkLibrary's sequencer uptime grace period
+const SEQUENCER_GRACE_PERIOD = 3600
+
+// Loads the oracle behind a Chainlink feed, indexing its aggregator the first
+// time the feed is seen. Feeds without an `aggregator()` (mocks, custom feeds)
+// are indexed directly.
+export function getOracle(feed: Address, event: ethereum.Event): Oracle {
+  let id = feed.toHexString()
+  let oracle = Oracle.load(id)
+
+  if (!oracle) {
+    oracle = new Oracle(id)
+    oracle.address = feed
+
+    let contract = ChainlinkAggregator.bind(feed)
+    let aggregator = feed
+
+    let aggregatorCall = contract.try_aggregator()
+    if (!aggregatorCall.reverted) {
+      aggregator = aggregatorCall.value
+    }
+
+    let decimalsCall = contract.try_decimals()
+    oracle.decimals = decimalsCall.reverted ? 8 : decimalsCall.value
+
+    let descriptionCall = contract.try_description()
+    oracle.description = descriptionCall.reverted ? "-" : descriptionCall.value
+
+    oracle.aggregator = aggregator
+    oracle.latestAnswer = BigInt.zero()
+    oracle.roundId = BigInt.zero()
+    oracle.updatedAt = event.block.timestamp
+
+    let roundCall = contract.try_latestRoundData()
+    if (!roundCall.reverted) {
+      oracle.roundId = roundCall.value.value0
+      oracle.latestAnswer = roundCall.value.value1
+      oracle.updatedAt = roundCall.value.value3
+    }
+
+    oracle.price = toDecimal(oracle.latestAnswer, oracle.decimals)
+
+    oracle.save()
+
+    let context = new DataSourceContext()
+    context.setString("feed", id)
+    ChainlinkAggregatorTemplate.createWithContext(aggregator, context)
+  }
+
+  return oracle
+}
+
+// Configures an ICO's feed for one accepted asset. Prices older than
+// `frequency` make deposits revert, so the feed goes stale `frequency`
+// seconds after the oracle's latest answer.
+export function createPriceFeed(
+  assetId: string,
+  icoId: string,
+  feed: Address,
+  oracle: Oracle,
+  frequency: BigInt,
+  sequencer: Address,
+  timestamp: BigInt
+): PriceFeed {
+  let priceFeed = new PriceFeed(assetId)
+  priceFeed.ico = icoId
+  priceFeed.asset = assetId
+  priceFeed.address = feed
+  priceFeed.oracle = oracle.id
+  priceFeed.decimals = oracle.decimals
+  priceFeed.frequency = frequency
+  priceFeed.staleAt = oracle.updatedAt.plus(frequency)
+  priceFeed.sequencer = sequencer
+  priceFeed.sequencerGracePeriod = sequencer.equals(Address.zero())
+    ? BigInt.zero()
+    : BigInt.fromI32(SEQUENCER_GRACE_PERIOD)
+  priceFeed.createdAt = timestamp
+  priceFeed.updatedAt = timestamp
+
+  priceFeed.save()
+
+  return priceFeed
+}
+
+// Latest USD price of one unit of the asset, zero without a feed
+export function getAssetPrice(asset: AcceptedAsset): BigDecimal {
+  let feedId = asset.priceFeed
+  if (!feedId) {
+    return BigDecimal.zero()
+  }
+
+  let feed = PriceFeed.load(feedId!)
+  if (!feed) {
+    return BigDecimal.zero()
+  }
+
+  let oracle = Oracle.load(feed.oracle)
+  if (!oracle) {
+    return BigDecimal.zero()
+  }
+
+  return oracle.price
+}
+
+// Re-values an asset's balances at its oracle's latest price and carries the
+// change over to its ICO and its hour/day snapshots, treasury, factory and the
+// protocol totals. The caller saves the asset; the ICO is loaded fresh, so
+// handlers must have saved their own copy beforehand.
+export function revalueAsset(asset: AcceptedAsset, event: ethereum.Event): void {
+  let price = getAssetPrice(asset)
+  let decimals = asset.decimals.toI32()
+
+  let backingUsd = toDecimal(asset.backingAssets, decimals).times(price)
+  let availableUsd = toDecimal(asset.availableAssets, decimals).times(price)
+
+  let backingDelta = backingUsd.minus(asset.backingUsd)
+  let availableDelta = availableUsd.minus(asset.availableUsd)
+
+  asset.backingUsd = backingUsd
+  asset.availableUsd = availableUsd
+  asset.totalUsd = backingUsd.plus(availableUsd)
+
+  recordProtocolRevaluation(asset, backingDelta, availableDelta)
+
+  let ico = FlyingICO.load(asset.ico)
+  if (!ico) {
+    return
+  }
+
+  let hour = getICOHourData(ico, event)
+  let day = getICODayData(ico, event)
+
+  ico.backingUsd = ico.backingUsd.plus(backingDelta)
+  ico.availableUsd = ico.availableUsd.plus(availableDelta)
+  ico.tvlUsd = ico.backingUsd.plus(ico.availableUsd)
+
+  ico.save()
+
+  closeICOBacking(hour, ico, event)
+  closeICOBacking(day, ico, event)
+
+  recordTreasuryRevaluation(ico.treasury, asset, availableDelta, event.block.timestamp)
+
+  let factoryId = ico.factory
+  if (!factoryId) {
+    return
+  }
+
+  let factory = FactoryFlyingICO.load(factoryId!)
+  if (!factory) {
+    return
+  }
+
+  factory.backingUsd = factory.backingUsd.plus(backingDelta)
+  factory.availableUsd = factory.availableUsd.plus(availableDelta)
+  factory.tvlUsd = factory.backingUsd.plus(factory.availableUsd)
+
+  factory.save()
+}
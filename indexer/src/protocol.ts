@@ -0,0 +1,213 @@
+import { AcceptedAsset, Protocol, ProtocolAsset } from "../generated/schema"
+import { BigDecimal, BigInt, ethereum } from "@graphprotocol/graph-ts"
+
+const PROTOCOL_ID = "1"
+const ONE = BigInt.fromI32(1)
+
+// Protocol and ProtocolAsset roll up every ICO, whether launched from the
+// factory or deployed standalone. Each record function loads, updates and
+// saves its own copies, so they can be called from anywhere in a handler.
+
+function getProtocol(): Protocol {
+  let p = Protocol.load(PROTOCOL_ID)
+
+  if (!p) {
+    p = new Protocol(PROTOCOL_ID)
+    p.icoCount = BigInt.zero()
+    p.userCount = BigInt.zero()
+    p.positionCount = BigInt.zero()
+    p.activePositionCount = BigInt.zero()
+    p.depositCount = BigInt.zero()
+    p.redemptionCount = BigInt.zero()
+    p.claimCount = BigInt.zero()
+    p.treasuryWithdrawalCount = BigInt.zero()
+    p.tokensMinted = BigInt.zero()
+    p.tokensRedeemed = BigInt.zero()
+    p.tokensClaimed = BigInt.zero()
+    p.depositedUsd = BigDecimal.zero()
+    p.backingUsd = BigDecimal.zero()
+    p.availableUsd = BigDecimal.zero()
+    p.tvlUsd = BigDecimal.zero()
+    p.updatedAt = BigInt.zero()
+  }
+
+  return p
+}
+
+function getProtocolAsset(asset: AcceptedAsset): ProtocolAsset {
+  let id = asset.address.toHexString()
+  let a = ProtocolAsset.load(id)
+
+  if (!a) {
+    a = new ProtocolAsset(id)
+    a.protocol = PROTOCOL_ID
+    a.address = asset.address
+    a.token = asset.token
+    a.symbol = asset.symbol
+    a.decimals = asset.decimals
+    a.icoCount = BigInt.zero()
+    a.depositedAssets = BigInt.zero()
+    a.redeemedAssets = BigInt.zero()
+    a.releasedAssets = BigInt.zero()
+    a.withdrawnAssets = BigInt.zero()
+    a.backingAssets = BigInt.zero()
+    a.availableAssets = BigInt.zero()
+    a.depositedUsd = BigDecimal.zero()
+    a.backingUsd = BigDecimal.zero()
+    a.availableUsd = BigDecimal.zero()
+    a.totalUsd = BigDecimal.zero()
+    a.updatedAt = BigInt.zero()
+  }
+
+  return a
+}
+
+// same balance sheet as AcceptedAsset, summed over ICOs
+function refreshProtocolAssetBalances(a: ProtocolAsset): void {
+  a.backingAssets = a.depositedAssets.minus(a.redeemedAssets).minus(a.releasedAssets)
+  a.availableAssets = a.releasedAssets.minus(a.withdrawnAssets)
+}
+
+export function recordProtocolICO(timestamp: BigInt): void {
+  let p = getProtocol()
+
+  p.icoCount = p.icoCount.plus(ONE)
+  p.updatedAt = timestamp
+
+  p.save()
+}
+
+export function recordProtocolUser(timestamp: BigInt): void {
+  let p = getProtocol()
+
+  p.userCount = p.userCount.plus(ONE)
+  p.updatedAt = timestamp
+
+  p.save()
+}
+
+export function recordProtocolAcceptedAsset(asset: AcceptedAsset, timestamp: BigInt): void {
+  let a = getProtocolAsset(asset)
+
+  a.icoCount = a.icoCount.plus(ONE)
+  a.updatedAt = timestamp
+
+  a.save()
+}
+
+export function recordProtocolDeposit(
+  event: ethereum.Event,
+  asset: AcceptedAsset,
+  assetAmount: BigInt,
+  tokensMinted: BigInt,
+  usdValue: BigDecimal
+): void {
+  let p = getProtocol()
+  let a = getProtocolAsset(asset)
+
+  p.positionCount = p.positionCount.plus(ONE)
+  p.activePositionCount = p.activePositionCount.plus(ONE)
+  p.depositCount = p.depositCount.plus(ONE)
+  p.tokensMinted = p.tokensMinted.plus(tokensMinted)
+  p.depositedUsd = p.depositedUsd.plus(usdValue)
+  p.updatedAt = event.block.timestamp
+
+  a.depositedAssets = a.depositedAssets.plus(assetAmount)
+  a.depositedUsd = a.depositedUsd.plus(usdValue)
+  refreshProtocolAssetBalances(a)
+  a.updatedAt = event.block.timestamp
+
+  p.save()
+  a.save()
+}
+
+export function recordProtocolRedemption(
+  event: ethereum.Event,
+  asset: AcceptedAsset,
+  assetAmount: BigInt,
+  tokensBurned: BigInt
+): void {
+  let p = getProtocol()
+  let a = getProtocolAsset(asset)
+
+  p.redemptionCount = p.redemptionCount.plus(ONE)
+  p.tokensRedeemed = p.tokensRedeemed.plus(tokensBurned)
+  p.updatedAt = event.block.timestamp
+
+  a.redeemedAssets = a.redeemedAssets.plus(assetAmount)
+  refreshProtocolAssetBalances(a)
+  a.updatedAt = event.block.timestamp
+
+  p.save()
+  a.save()
+}
+
+export function recordProtocolClaim(
+  event: ethereum.Event,
+  asset: AcceptedAsset,
+  assetAmount: BigInt,
+  tokensClaimed: BigInt
+): void {
+  let p = getProtocol()
+  let a = getProtocolAsset(asset)
+
+  p.claimCount = p.claimCount.plus(ONE)
+  p.tokensClaimed = p.tokensClaimed.plus(tokensClaimed)
+  p.updatedAt = event.block.timestamp
+
+  a.releasedAssets = a.releasedAssets.plus(assetAmount)
+  refreshProtocolAssetBalances(a)
+  a.updatedAt = event.block.timestamp
+
+  p.save()
+  a.save()
+}
+
+export function recordProtocolPositionClosed(event: ethereum.Event): void {
+  let p = getProtocol()
+
+  p.activePositionCount = p.activePositionCount.minus(ONE)
+  p.updatedAt = event.block.timestamp
+
+  p.save()
+}
+
+export function recordProtocolTreasuryWithdrawal(
+  event: ethereum.Event,
+  asset: AcceptedAsset,
+  assetAmount: BigInt
+): void {
+  let p = getProtocol()
+  let a = getProtocolAsset(asset)
+
+  p.treasuryWithdrawalCount = p.treasuryWithdrawalCount.plus(ONE)
+  p.updatedAt = event.block.timestamp
+
+  a.withdrawnAssets = a.withdrawnAssets.plus(assetAmount)
+  refreshProtocolAssetBalances(a)
+  a.updatedAt = event.block.timestamp
+
+  p.save()
+  a.save()
+}
+
+// Applies the USD change of one revalued AcceptedAsset, see revalueAsset.
+export function recordProtocolRevaluation(
+  asset: AcceptedAsset,
+  backingDelta: BigDecimal,
+  availableDelta: BigDecimal
+): void {
+  let p = getProtocol()
+  let a = getProtocolAsset(asset)
+
+  p.backingUsd = p.backingUsd.plus(backingDelta)
+  p.availableUsd = p.availableUsd.plus(availableDelta)
+  p.tvlUsd = p.backingUsd.plus(p.availableUsd)
+
+  a.backingUsd = a.backingUsd.plus(backingDelta)
+  a.availableUsd = a.availableUsd.plus(availableDelta)
+  a.totalUsd = a.backingUsd.plus(a.availableUsd)
+
+  p.save()
+  a.save()
+}
@@ -0,0 +1,99 @@
+import { Deposit, Referral, Referrer } from "../generated/schema"
+import { BigDecimal, BigInt, Bytes, ethereum } from "@graphprotocol/graph-ts"
+
+// "FLYR", the last 4 bytes of a referred deposit's calldata
+const MARKER: u8[] = [0x46, 0x4c, 0x59, 0x52]
+const MAX_CODE_LENGTH = 32
+// function selector, code length byte and marker
+const MIN_OVERHEAD = 4 + 1 + 4
+
+function isCodeChar(c: u8): boolean {
+  return (
+    (c >= 0x61 && c <= 0x7a) || // a-z
+    (c >= 0x41 && c <= 0x5a) || // A-Z
+    (c >= 0x30 && c <= 0x39) || // 0-9
+    c == 0x2d || // -
+    c == 0x5f // _
+  )
+}
+
+// Reads the referral suffix `code | length (1 byte) | marker` off the end of
+// the transaction calldata, returning the lowercased code, or null when the
+// calldata carries no well-formed suffix.
+export function decodeReferralCode(input: Bytes): string | null {
+  let n = input.length
+  if (n < MIN_OVERHEAD + 1) {
+    return null
+  }
+
+  for (let i = 0; i < MARKER.length; i++) {
+    if (input[n - MARKER.length + i] != MARKER[i]) {
+      return null
+    }
+  }
+
+  let length = input[n - 5] as i32
+  if (length < 1 || length > MAX_CODE_LENGTH || n < MIN_OVERHEAD + length) {
+    return null
+  }
+
+  let code = input.subarray(n - 5 - length, n - 5)
+  for (let i = 0; i < code.length; i++) {
+    if (!isCodeChar(code[i])) {
+      return null
+    }
+  }
+
+  return Bytes.fromUint8Array(code).toString().toLowerCase()
+}
+
+function getReferrer(code: string, timestamp: BigInt): Referrer {
+  let r = Referrer.load(code)
+
+  if (!r) {
+    r = new Referrer(code)
+    r.depositCount = BigInt.zero()
+    r.tokensMinted = BigInt.zero()
+    r.depositedUsd = BigDecimal.zero()
+    r.firstReferralAt = timestamp
+  }
+
+  r.lastReferralAt = timestamp
+
+  return r
+}
+
+// Attributes a deposit to the referral code in its transaction calldata, if
+// any, returning the referrer id. Only the top-level calldata is inspected, so
+// deposits routed through multicalls or smart wallets are not attributed.
+export function recordReferral(deposit: Deposit, event: ethereum.Event): string | null {
+  let code = decodeReferralCode(event.transaction.input)
+  if (code == null) {
+    return null
+  }
+
+  let r = getReferrer(code!, event.block.timestamp)
+
+  r.depositCount = r.depositCount.plus(BigInt.fromI32(1))
+  r.tokensMinted = r.tokensMinted.plus(deposit.tokensMinted)
+  r.depositedUsd = r.depositedUsd.plus(deposit.usdValue)
+
+  r.save()
+
+  let referral = new Referral(deposit.id)
+  referral.referrer = r.id
+  referral.deposit = deposit.id
+  referral.ico = deposit.ico
+  referral.user = deposit.sender
+  referral.asset = deposit.asset
+  referral.assetAmount = deposit.assetAmount
+  referral.tokensMinted = deposit.tokensMinted
+  referral.usdValue = deposit.usdValue
+  referral.blockNumber = event.block.number
+  referral.timestamp = event.block.timestamp
+  referral.transactionHash = event.transaction.hash
+
+  referral.save()
+
+  return r.id
+}
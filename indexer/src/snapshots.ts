@@ -0,0 +1,142 @@
+import {
+  AcceptedAsset,
+  AcceptedAssetDayData,
+  FlyingICO,
+  FlyingICODayData,
+  FlyingICOHourData,
+} from "../generated/schema"
+import { BigInt, ethereum } from "@graphprotocol/graph-ts"
+import { lockedTokens } from "./ico"
+
+const HOUR = 3600
+const DAY = 86400
+const ONE = BigInt.fromI32(1)
+
+// Snapshots are loaded before a handler mutates the ICO or asset, so that a
+// new bucket opens with the state as it was before the event, and closed
+// with the updated state once the handler is done.
+
+function initICOData<T>(data: T, ico: FlyingICO): void {
+  data.ico = ico.id
+
+  data.openTotalSupply = ico.totalSupply
+  data.closeTotalSupply = ico.totalSupply
+  data.openLockedTokens = lockedTokens(ico)
+  data.closeLockedTokens = lockedTokens(ico)
+  data.openPositionCount = ico.positionCount
+  data.closePositionCount = ico.positionCount
+  data.openActivePositionCount = ico.activePositionCount
+  data.closeActivePositionCount = ico.activePositionCount
+  data.openBackingUsd = ico.backingUsd
+  data.closeBackingUsd = ico.backingUsd
+
+  data.depositCount = BigInt.zero()
+  data.tokensMinted = BigInt.zero()
+  data.redemptionCount = BigInt.zero()
+  data.tokensRedeemed = BigInt.zero()
+  data.claimCount = BigInt.zero()
+  data.tokensClaimed = BigInt.zero()
+  data.treasuryWithdrawalCount = BigInt.zero()
+}
+
+export function getICOHourData(ico: FlyingICO, event: ethereum.Event): FlyingICOHourData {
+  let index = event.block.timestamp.toI32() / HOUR
+  let id = ico.id + "-" + index.toString()
+  let data = FlyingICOHourData.load(id)
+
+  if (!data) {
+    data = new FlyingICOHourData(id)
+    data.periodStartUnix = index * HOUR
+    initICOData<FlyingICOHourData>(data, ico)
+  }
+
+  return data
+}
+
+export function getICODayData(ico: FlyingICO, event: ethereum.Event): FlyingICODayData {
+  let index = event.block.timestamp.toI32() / DAY
+  let id = ico.id + "-" + index.toString()
+  let data = FlyingICODayData.load(id)
+
+  if (!data) {
+    data = new FlyingICODayData(id)
+    data.date = index * DAY
+    initICOData<FlyingICODayData>(data, ico)
+  }
+
+  return data
+}
+
+export function recordDeposit<T>(data: T, tokensMinted: BigInt): void {
+  data.depositCount = data.depositCount.plus(ONE)
+  data.tokensMinted = data.tokensMinted.plus(tokensMinted)
+}
+
+export function recordRedemption<T>(data: T, tokensBurned: BigInt): void {
+  data.redemptionCount = data.redemptionCount.plus(ONE)
+  data.tokensRedeemed = data.tokensRedeemed.plus(tokensBurned)
+}
+
+export function recordClaim<T>(data: T, tokensClaimed: BigInt): void {
+  data.claimCount = data.claimCount.plus(ONE)
+  data.tokensClaimed = data.tokensClaimed.plus(tokensClaimed)
+}
+
+export function recordTreasuryWithdrawal<T>(data: T): void {
+  data.treasuryWithdrawalCount = data.treasuryWithdrawalCount.plus(ONE)
+}
+
+export function closeICOData<T>(data: T, ico: FlyingICO, event: ethereum.Event): void {
+  data.closeTotalSupply = ico.totalSupply
+  data.closeLockedTokens = lockedTokens(ico)
+  data.closePositionCount = ico.positionCount
+  data.closeActivePositionCount = ico.activePositionCount
+  data.closeBackingUsd = ico.backingUsd
+  data.updatedAt = event.block.timestamp
+
+  data.save()
+}
+
+// Oracle answers and balance changes revalue the backing after the handler
+// closed its buckets, see revalueAsset.
+export function closeICOBacking<T>(data: T, ico: FlyingICO, event: ethereum.Event): void {
+  data.closeBackingUsd = ico.backingUsd
+  data.updatedAt = event.block.timestamp
+
+  data.save()
+}
+
+export function getAssetDayData(asset: AcceptedAsset, event: ethereum.Event): AcceptedAssetDayData {
+  let index = event.block.timestamp.toI32() / DAY
+  let id = asset.id + "-" + index.toString()
+  let data = AcceptedAssetDayData.load(id)
+
+  if (!data) {
+    data = new AcceptedAssetDayData(id)
+    data.date = index * DAY
+    data.asset = asset.id
+    data.ico = asset.ico
+
+    data.depositedAssets = BigInt.zero()
+    data.redeemedAssets = BigInt.zero()
+    data.releasedAssets = BigInt.zero()
+    data.withdrawnAssets = BigInt.zero()
+
+    data.openBackingAssets = asset.backingAssets
+    data.closeBackingAssets = asset.backingAssets
+    data.openAvailableAssets = asset.availableAssets
+    data.closeAvailableAssets = asset.availableAssets
+    data.closeTotalAssets = asset.totalAssets
+  }
+
+  return data
+}
+
+export function closeAssetDayData(data: AcceptedAssetDayData, asset: AcceptedAsset, event: ethereum.Event): void {
+  data.closeBackingAssets = asset.backingAssets
+  data.closeAvailableAssets = asset.availableAssets
+  data.closeTotalAssets = asset.totalAssets
+  data.updatedAt = event.block.timestamp
+
+  data.save()
+}
@@ -0,0 +1,141 @@
+import { ERC20 } from "../generated/templates/FlyingICO/ERC20"
+import { ERC20NameBytes } from "../generated/templates/FlyingICO/ERC20NameBytes"
+import { ERC20SymbolBytes } from "../generated/templates/FlyingICO/ERC20SymbolBytes"
+import { Token } from "../generated/schema"
+import { Address, BigInt, Bytes } from "@graphprotocol/graph-ts"
+
+const ETH_ADDRESS = "0x0000000000000000000000000000000000000000"
+
+class TokenOverride {
+  address: string
+  name: string
+  symbol: string
+  decimals: i32
+
+  constructor(address: string, name: string, symbol: string, decimals: i32) {
+    this.address = address
+    this.name = name
+    this.symbol = symbol
+    this.decimals = decimals
+  }
+}
+
+// Tokens whose metadata cannot be read on-chain, or reads wrong
+function getOverrides(): TokenOverride[] {
+  return [
+    new TokenOverride("0x9f8f72aa9304c8b593d555f12ef6589cc3a579a2", "Maker", "MKR", 18),
+    new TokenOverride("0x89d24a6b4ccb1b6faa2625fe562bdd9a23260359", "Sai Stablecoin v1.0", "SAI", 18),
+    new TokenOverride("0xe0b7927c4af23765cb51314a0e0521a9645f0e2a", "DGD", "DGD", 9),
+  ]
+}
+
+function findOverride(address: string): TokenOverride | null {
+  let overrides = getOverrides()
+
+  for (let i = 0; i < overrides.length; i++) {
+    if (overrides[i].address == address) {
+      return overrides[i]
+    }
+  }
+
+  return null
+}
+
+// bytes32 strings are right-padded with zeros
+function bytes32ToString(value: Bytes): string {
+  let length = value.length
+  while (length > 0 && value[length - 1] == 0) {
+    length--
+  }
+
+  return Bytes.fromUint8Array(value.subarray(0, length)).toString()
+}
+
+function fetchSymbol(address: Address): string {
+  let symbolCall = ERC20.bind(address).try_symbol()
+  if (!symbolCall.reverted) {
+    return symbolCall.value
+  }
+
+  let bytesCall = ERC20SymbolBytes.bind(address).try_symbol()
+  if (!bytesCall.reverted) {
+    let symbol = bytes32ToString(bytesCall.value)
+    if (symbol.length > 0) {
+      return symbol
+    }
+  }
+
+  return "-"
+}
+
+function fetchName(address: Address): string {
+  let nameCall = ERC20.bind(address).try_name()
+  if (!nameCall.reverted) {
+    return nameCall.value
+  }
+
+  let bytesCall = ERC20NameBytes.bind(address).try_name()
+  if (!bytesCall.reverted) {
+    let name = bytes32ToString(bytesCall.value)
+    if (name.length > 0) {
+      return name
+    }
+  }
+
+  return "-"
+}
+
+function fetchDecimals(address: Address): BigInt {
+  let decimalsCall = ERC20.bind(address).try_decimals()
+  if (!decimalsCall.reverted) {
+    return BigInt.fromI32(decimalsCall.value)
+  }
+
+  return BigInt.zero()
+}
+
+// Loads the token at `address`, resolving its metadata the first time it is
+// seen: the overrides table first, then the string getters, then their
+// bytes32 variants (MKR-style tokens).
+export function getToken(address: Address): Token {
+  let id = address.toHexString()
+  let token = Token.load(id)
+
+  if (!token) {
+    token = new Token(id)
+    token.address = address
+
+    let known = findOverride(id)
+
+    if (id == ETH_ADDRESS) {
+      token.name = "Ether"
+      token.symbol = "ETH"
+      token.decimals = BigInt.fromI32(18)
+    } else if (known) {
+      token.name = known.name
+      token.symbol = known.symbol
+      token.decimals = BigInt.fromI32(known.decimals)
+    } else {
+      token.name = fetchName(address)
+      token.symbol = fetchSymbol(address)
+      token.decimals = fetchDecimals(address)
+    }
+
+    token.save()
+  }
+
+  return token
+}
+
+// The ICO contract is an 18-decimals ERC20 configured by FlyingICO__Initialized.
+export function saveICOToken(address: Address, name: string, symbol: string): Token {
+  let token = new Token(address.toHexString())
+  token.address = address
+  token.name = name
+  token.symbol = symbol
+  token.decimals = BigInt.fromI32(18)
+
+  token.save()
+
+  return token
+}
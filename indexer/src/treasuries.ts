@@ -0,0 +1,151 @@
+import { AcceptedAsset, Treasury, TreasuryAsset, TreasuryAssetDayData } from "../generated/schema"
+import { BigDecimal, BigInt, Bytes, ethereum } from "@graphprotocol/graph-ts"
+
+const DAY = 86400
+const ONE = BigInt.fromI32(1)
+
+// A treasury aggregates every ICO naming it. Its withdrawable balance mirrors
+// the ICOs' treasury-available balances: released by claims, minus withdrawn.
+
+function getTreasury(id: string, timestamp: BigInt): Treasury {
+  let t = Treasury.load(id)
+
+  if (!t) {
+    t = new Treasury(id)
+    t.address = Bytes.fromHexString(id)
+    t.icoCount = BigInt.zero()
+    t.withdrawalCount = BigInt.zero()
+    t.withdrawnUsd = BigDecimal.zero()
+    t.availableUsd = BigDecimal.zero()
+    t.createdAt = timestamp
+  }
+
+  t.updatedAt = timestamp
+
+  return t
+}
+
+function getTreasuryAsset(treasuryId: string, asset: AcceptedAsset, timestamp: BigInt): TreasuryAsset {
+  let id = treasuryId + "-" + asset.address.toHexString()
+  let a = TreasuryAsset.load(id)
+
+  if (!a) {
+    a = new TreasuryAsset(id)
+    a.treasury = treasuryId
+    a.address = asset.address
+    a.token = asset.token
+    a.symbol = asset.symbol
+    a.decimals = asset.decimals
+    a.releasedAssets = BigInt.zero()
+    a.withdrawnAssets = BigInt.zero()
+    a.availableAssets = BigInt.zero()
+    a.withdrawalCount = BigInt.zero()
+    a.withdrawnUsd = BigDecimal.zero()
+    a.availableUsd = BigDecimal.zero()
+  }
+
+  a.updatedAt = timestamp
+
+  return a
+}
+
+function getTreasuryAssetDayData(a: TreasuryAsset, event: ethereum.Event): TreasuryAssetDayData {
+  let index = event.block.timestamp.toI32() / DAY
+  let id = a.id + "-" + index.toString()
+  let data = TreasuryAssetDayData.load(id)
+
+  if (!data) {
+    data = new TreasuryAssetDayData(id)
+    data.date = index * DAY
+    data.treasury = a.treasury
+    data.treasuryAsset = a.id
+    data.releasedAssets = BigInt.zero()
+    data.withdrawnAssets = BigInt.zero()
+    data.withdrawalCount = BigInt.zero()
+    data.withdrawnUsd = BigDecimal.zero()
+  }
+
+  data.updatedAt = event.block.timestamp
+
+  return data
+}
+
+// Links a newly initialized ICO to its treasury, returning the treasury id.
+export function recordTreasuryICO(treasury: Bytes, timestamp: BigInt): string {
+  let t = getTreasury(treasury.toHexString(), timestamp)
+
+  t.icoCount = t.icoCount.plus(ONE)
+
+  t.save()
+
+  return t.id
+}
+
+export function recordTreasuryRelease(
+  treasuryId: string,
+  asset: AcceptedAsset,
+  assetAmount: BigInt,
+  event: ethereum.Event
+): void {
+  let a = getTreasuryAsset(treasuryId, asset, event.block.timestamp)
+  let day = getTreasuryAssetDayData(a, event)
+
+  a.releasedAssets = a.releasedAssets.plus(assetAmount)
+  a.availableAssets = a.releasedAssets.minus(a.withdrawnAssets)
+
+  day.releasedAssets = day.releasedAssets.plus(assetAmount)
+  day.closeAvailableAssets = a.availableAssets
+
+  a.save()
+  day.save()
+}
+
+export function recordTreasuryAssetWithdrawal(
+  treasuryId: string,
+  asset: AcceptedAsset,
+  assetAmount: BigInt,
+  usdValue: BigDecimal,
+  event: ethereum.Event
+): void {
+  let t = getTreasury(treasuryId, event.block.timestamp)
+  let a = getTreasuryAsset(treasuryId, asset, event.block.timestamp)
+  let day = getTreasuryAssetDayData(a, event)
+
+  t.withdrawalCount = t.withdrawalCount.plus(ONE)
+  t.withdrawnUsd = t.withdrawnUsd.plus(usdValue)
+
+  a.withdrawnAssets = a.withdrawnAssets.plus(assetAmount)
+  a.availableAssets = a.releasedAssets.minus(a.withdrawnAssets)
+  a.withdrawalCount = a.withdrawalCount.plus(ONE)
+  a.withdrawnUsd = a.withdrawnUsd.plus(usdValue)
+
+  day.withdrawnAssets = day.withdrawnAssets.plus(assetAmount)
+  day.withdrawalCount = day.withdrawalCount.plus(ONE)
+  day.withdrawnUsd = day.withdrawnUsd.plus(usdValue)
+  day.closeAvailableAssets = a.availableAssets
+
+  t.save()
+  a.save()
+  day.save()
+}
+
+// Applies the change in an ICO asset's treasury-available USD value, see revalueAsset.
+export function recordTreasuryRevaluation(
+  treasuryId: string,
+  asset: AcceptedAsset,
+  availableDelta: BigDecimal,
+  timestamp: BigInt
+): void {
+  if (availableDelta.equals(BigDecimal.zero())) {
+    return
+  }
+
+  let t = getTreasury(treasuryId, timestamp)
+  let a = getTreasuryAsset(treasuryId, asset, timestamp)
+
+  t.availableUsd = t.availableUsd.plus(availableDelta)
+  a.availableUsd = a.availableUsd.plus(availableDelta)
+
+  t.save()
+  a.save()
+}
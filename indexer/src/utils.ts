@@ -0,0 +1,10 @@
+import { BigDecimal, BigInt } from "@graphprotocol/graph-ts"
+
+export function exponentToBigDecimal(decimals: i32): BigDecimal {
+  return BigInt.fromI32(10).pow(<u8>decimals).toBigDecimal()
+}
+
+// Converts a raw integer amount into its decimal representation
+export function toDecimal(value: BigInt, decimals: i32): BigDecimal {
+  return value.toBigDecimal().div(exponentToBigDecimal(decimals))
+}
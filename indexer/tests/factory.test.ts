@@ -0,0 +1,67 @@
+import { assert, describe, test, clearStore, afterEach } from "matchstick-as"
+import { Address } from "@graphprotocol/graph-ts"
+import { handleFactory__FlyingIcoCreated } from "../src/factory"
+import { handleFlyingInitialized } from "../src/flying-ico"
+import {
+  ALICE,
+  ETH_FEED,
+  FACTORY,
+  ICO,
+  USDC,
+  USDC_FEED,
+  createFlyingIcoCreatedEvent,
+  createInitializedEvent,
+  mockERC20,
+  mockPriceFeed,
+} from "./utils"
+
+describe("handleFactory__FlyingIcoCreated", () => {
+  afterEach(() => {
+    clearStore()
+  })
+
+  test("creates the factory, the ICO placeholder and its data source", () => {
+    handleFactory__FlyingIcoCreated(createFlyingIcoCreatedEvent(ICO))
+
+    assert.entityCount("FactoryFlyingICO", 1)
+    assert.fieldEquals("FactoryFlyingICO", FACTORY.toHexString(), "icoCount", "1")
+
+    assert.entityCount("FlyingICO", 1)
+    assert.fieldEquals("FlyingICO", ICO.toHexString(), "factory", FACTORY.toHexString())
+    assert.fieldEquals("FlyingICO", ICO.toHexString(), "name", "-")
+    assert.fieldEquals("FlyingICO", ICO.toHexString(), "totalSupply", "0")
+    assert.fieldEquals("FlyingICO", ICO.toHexString(), "positionCount", "0")
+
+    assert.dataSourceCount("FlyingICO", 1)
+    assert.dataSourceExists("FlyingICO", ICO.toHexString())
+  })
+
+  test("counts every ICO created by the same factory", () => {
+    let second = Address.fromString("0x00000000000000000000000000000000000000c0")
+
+    handleFactory__FlyingIcoCreated(createFlyingIcoCreatedEvent(ICO))
+    handleFactory__FlyingIcoCreated(createFlyingIcoCreatedEvent(second))
+
+    assert.entityCount("FactoryFlyingICO", 1)
+    assert.fieldEquals("FactoryFlyingICO", FACTORY.toHexString(), "icoCount", "2")
+    assert.entityCount("FlyingICO", 2)
+    assert.dataSourceCount("FlyingICO", 2)
+
+    // both launched by the same sender
+    assert.entityCount("Creator", 1)
+    assert.fieldEquals("Creator", ALICE.toHexString(), "icoCount", "2")
+    assert.fieldEquals("FlyingICO", second.toHexString(), "creator", ALICE.toHexString())
+  })
+
+  test("keeps the config of an ICO initialized earlier in the block", () => {
+    mockERC20(USDC, "USDC", 6)
+    mockPriceFeed(ETH_FEED, "ETH / USD", 200000000000)
+    mockPriceFeed(USDC_FEED, "USDC / USD", 100000000)
+
+    handleFlyingInitialized(createInitializedEvent(1000000, 10))
+    handleFactory__FlyingIcoCreated(createFlyingIcoCreatedEvent(ICO))
+
+    assert.fieldEquals("FlyingICO", ICO.toHexString(), "name", "Flying Token")
+    assert.fieldEquals("FlyingICO", ICO.toHexString(), "factory", FACTORY.toHexString())
+  })
+})
@@ -0,0 +1,469 @@
+import { assert, describe, test, clearStore, beforeEach, afterEach, dataSourceMock, newMockEvent } from "matchstick-as"
+import { Address, BigInt, Bytes, DataSourceContext } from "@graphprotocol/graph-ts"
+import { handleFactory__FlyingIcoCreated } from "../src/factory"
+import {
+  handleFlyingInitialized,
+  handleFlyingDeposited,
+  handleFlyingRedeemed,
+  handleFlyingClaimed,
+  handleFlyingPositionClosed,
+  handleFlyingAssetsTakenToTreasury,
+  handleFlyingBlock,
+  handleFlyingTransfer,
+} from "../src/flying-ico"
+import { handleAnswerUpdated } from "../src/oracle"
+import {
+  ALICE,
+  BOB,
+  ETH,
+  ETH_FEED,
+  ICO,
+  TREASURY,
+  USDC,
+  USDC_FEED,
+  VESTING_END,
+  VESTING_START,
+  createAnswerUpdatedEvent,
+  createAssetsTakenToTreasuryEvent,
+  createClaimedEvent,
+  createDepositedEvent,
+  createFlyingIcoCreatedEvent,
+  createInitializedEvent,
+  createPositionClosedEvent,
+  createRedeemedEvent,
+  createTransferEvent,
+  mockBytes32ERC20,
+  mockERC20,
+  mockPriceFeed,
+  tokens,
+} from "./utils"
+
+const ICO_ID = ICO.toHexString()
+const ETH_ASSET_ID = ICO_ID + "-" + ETH.toHexString()
+const USDC_ASSET_ID = ICO_ID + "-" + USDC.toHexString()
+const ALICE_POSITION_ID = ICO_ID + "-0"
+const BOB_POSITION_ID = ICO_ID + "-1"
+
+const ONE_ETH = BigInt.fromI32(10).pow(18)
+const FACTORY_ID = "0x85e999bda865602232af835acc2806a5b77a99e2"
+
+function usdc(amount: i32): BigInt {
+  return BigInt.fromI32(amount).times(BigInt.fromI32(10).pow(6))
+}
+
+// 10 tokens per USD: 1 ETH at $2000 mints 20,000 tokens, 100 USDC mints 1,000 tokens
+function depositBoth(timestamp: i32): void {
+  handleFlyingDeposited(createDepositedEvent(ALICE, 0, ETH, ONE_ETH, tokens(20000), timestamp))
+  handleFlyingDeposited(createDepositedEvent(BOB, 1, USDC, usdc(100), tokens(1000), timestamp))
+}
+
+function pollBlock(timestamp: i32): void {
+  let block = newMockEvent().block
+  block.timestamp = BigInt.fromI32(timestamp)
+
+  dataSourceMock.setAddress(ICO_ID)
+  handleFlyingBlock(block)
+}
+
+function mockFeeds(): void {
+  mockERC20(USDC, "USDC", 6)
+  mockPriceFeed(ETH_FEED, "ETH / USD", 200000000000)
+  mockPriceFeed(USDC_FEED, "USDC / USD", 100000000)
+}
+
+describe("FlyingICO handlers", () => {
+  beforeEach(() => {
+    mockFeeds()
+
+    handleFactory__FlyingIcoCreated(createFlyingIcoCreatedEvent(ICO))
+    handleFlyingInitialized(createInitializedEvent(1000000, 10))
+  })
+
+  afterEach(() => {
+    clearStore()
+  })
+
+  test("initialization stores the ICO config and its accepted assets", () => {
+    assert.fieldEquals("FlyingICO", ICO_ID, "name", "Flying Token")
+    assert.fieldEquals("FlyingICO", ICO_ID, "symbol", "FLY")
+    assert.fieldEquals("FlyingICO", ICO_ID, "tokenCap", "1000000")
+    assert.fieldEquals("FlyingICO", ICO_ID, "tokensPerUsd", "10")
+    assert.fieldEquals("FlyingICO", ICO_ID, "treasury", TREASURY.toHexString())
+    assert.fieldEquals("FlyingICO", ICO_ID, "vestingStart", VESTING_START.toString())
+
+    assert.entityCount("AcceptedAsset", 2)
+    assert.fieldEquals("AcceptedAsset", ETH_ASSET_ID, "symbol", "ETH")
+    assert.fieldEquals("AcceptedAsset", ETH_ASSET_ID, "decimals", "18")
+    assert.fieldEquals("AcceptedAsset", USDC_ASSET_ID, "symbol", "USDC")
+    assert.fieldEquals("AcceptedAsset", USDC_ASSET_ID, "decimals", "6")
+
+    assert.fieldEquals("AcceptedAsset", USDC_ASSET_ID, "token", USDC.toHexString())
+    assert.fieldEquals("Token", USDC.toHexString(), "name", "USDC Token")
+    assert.fieldEquals("Token", ETH.toHexString(), "symbol", "ETH")
+    assert.fieldEquals("FlyingICO", ICO_ID, "assetSymbols", "ETH USDC")
+    assert.fieldEquals("FlyingICO", ICO_ID, "token", ICO_ID)
+    assert.fieldEquals("Token", ICO_ID, "symbol", "FLY")
+    assert.fieldEquals("Token", ICO_ID, "decimals", "18")
+
+    assert.fieldEquals("AcceptedAsset", ETH_ASSET_ID, "priceFeed", ETH_ASSET_ID)
+    assert.fieldEquals("PriceFeed", ETH_ASSET_ID, "frequency", "3600")
+    assert.fieldEquals("PriceFeed", ETH_ASSET_ID, "decimals", "8")
+    // the mocked round was last updated at timestamp 1
+    assert.fieldEquals("PriceFeed", ETH_ASSET_ID, "staleAt", "3601")
+    assert.fieldEquals("PriceFeed", USDC_ASSET_ID, "staleAt", "86401")
+    assert.fieldEquals("PriceFeed", ETH_ASSET_ID, "sequencerGracePeriod", "0")
+    assert.fieldEquals("PriceFeed", USDC_ASSET_ID, "oracle", USDC_FEED.toHexString())
+    assert.fieldEquals("Oracle", ETH_FEED.toHexString(), "price", "2000")
+    assert.fieldEquals("Oracle", ETH_FEED.toHexString(), "description", "ETH / USD")
+  })
+
+  test("ETH and ERC20 deposits open positions and back them", () => {
+    depositBoth(100)
+
+    assert.fieldEquals("FlyingICO", ICO_ID, "totalSupply", tokens(21000).toString())
+    assert.fieldEquals("FlyingICO", ICO_ID, "positionCount", "2")
+    assert.fieldEquals("FlyingICO", ICO_ID, "activePositionCount", "2")
+
+    assert.fieldEquals("FlyingPosition", ALICE_POSITION_ID, "user", ALICE.toHexString())
+    assert.fieldEquals("FlyingPosition", ALICE_POSITION_ID, "asset", ETH.toHexString())
+    assert.fieldEquals("FlyingPosition", ALICE_POSITION_ID, "assetAmount", ONE_ETH.toString())
+    assert.fieldEquals("FlyingPosition", ALICE_POSITION_ID, "vestingAmount", tokens(20000).toString())
+    assert.fieldEquals("FlyingPosition", ALICE_POSITION_ID, "depositUsdValue", "2000")
+    assert.fieldEquals("FlyingPosition", ALICE_POSITION_ID, "assetPriceUsd", "2000")
+    assert.fieldEquals("FlyingPosition", BOB_POSITION_ID, "assetAmount", usdc(100).toString())
+    assert.fieldEquals("FlyingPosition", BOB_POSITION_ID, "assetPriceUsd", "1")
+
+    assert.fieldEquals("AcceptedAsset", ETH_ASSET_ID, "depositedAssets", ONE_ETH.toString())
+    assert.fieldEquals("AcceptedAsset", ETH_ASSET_ID, "backingAssets", ONE_ETH.toString())
+    assert.fieldEquals("AcceptedAsset", USDC_ASSET_ID, "backingAssets", usdc(100).toString())
+    assert.fieldEquals("AcceptedAsset", USDC_ASSET_ID, "availableAssets", "0")
+
+    assert.entityCount("Deposit", 2)
+    assert.fieldEquals("Account", ALICE.toHexString(), "lockedTokens", tokens(20000).toString())
+    assert.fieldEquals("FlyingICODayData", ICO_ID + "-0", "depositCount", "2")
+    assert.fieldEquals("FlyingICODayData", ICO_ID + "-0", "openTotalSupply", "0")
+    assert.fieldEquals("FlyingICODayData", ICO_ID + "-0", "openBackingUsd", "0")
+    assert.fieldEquals("FlyingICODayData", ICO_ID + "-0", "closeBackingUsd", "2100")
+    assert.fieldEquals("FlyingICOHourData", ICO_ID + "-0", "closeBackingUsd", "2100")
+  })
+
+  test("redeeming before vesting starts also reduces the vesting amount", () => {
+    depositBoth(100)
+
+    handleFlyingRedeemed(createRedeemedEvent(ALICE, 0, tokens(5000), ETH, ONE_ETH.div(BigInt.fromI32(4)), 500))
+
+    assert.fieldEquals("FlyingPosition", ALICE_POSITION_ID, "tokenAmount", tokens(15000).toString())
+    assert.fieldEquals("FlyingPosition", ALICE_POSITION_ID, "vestingAmount", tokens(15000).toString())
+    assert.fieldEquals("FlyingPosition", ALICE_POSITION_ID, "redeemedTokens", tokens(5000).toString())
+    assert.fieldEquals("FlyingPosition", ALICE_POSITION_ID, "isClosed", "false")
+
+    assert.fieldEquals("FlyingICO", ICO_ID, "totalSupply", tokens(16000).toString())
+    assert.fieldEquals("FlyingICO", ICO_ID, "tokensRedeemed", tokens(5000).toString())
+
+    // redemptions release backing, they never add to it
+    let remaining = ONE_ETH.minus(ONE_ETH.div(BigInt.fromI32(4))).toString()
+    assert.fieldEquals("AcceptedAsset", ETH_ASSET_ID, "backingAssets", remaining)
+    assert.fieldEquals("AcceptedAsset", ETH_ASSET_ID, "totalAssets", remaining)
+    assert.fieldEquals("AcceptedAsset", ETH_ASSET_ID, "availableAssets", "0")
+
+    assert.entityCount("Redemption", 1)
+  })
+
+  test("redeeming during vesting keeps the vesting amount", () => {
+    depositBoth(100)
+
+    handleFlyingRedeemed(createRedeemedEvent(BOB, 1, tokens(250), USDC, usdc(25), 1500))
+
+    assert.fieldEquals("FlyingPosition", BOB_POSITION_ID, "tokenAmount", tokens(750).toString())
+    assert.fieldEquals("FlyingPosition", BOB_POSITION_ID, "vestingAmount", tokens(1000).toString())
+    assert.fieldEquals("FlyingPosition", BOB_POSITION_ID, "redeemedAssets", usdc(25).toString())
+  })
+
+  test("a partial claim frees backing for the treasury", () => {
+    depositBoth(100)
+
+    handleFlyingClaimed(createClaimedEvent(BOB, 1, tokens(400), USDC, usdc(40), 500))
+
+    assert.fieldEquals("FlyingPosition", BOB_POSITION_ID, "tokenAmount", tokens(600).toString())
+    assert.fieldEquals("FlyingPosition", BOB_POSITION_ID, "vestingAmount", tokens(600).toString())
+    assert.fieldEquals("FlyingPosition", BOB_POSITION_ID, "claimedTokens", tokens(400).toString())
+
+    // claimed tokens stay in the supply
+    assert.fieldEquals("FlyingICO", ICO_ID, "totalSupply", tokens(21000).toString())
+    assert.fieldEquals("FlyingICO", ICO_ID, "tokensClaimed", tokens(400).toString())
+
+    assert.fieldEquals("AcceptedAsset", USDC_ASSET_ID, "backingAssets", usdc(60).toString())
+    assert.fieldEquals("AcceptedAsset", USDC_ASSET_ID, "availableAssets", usdc(40).toString())
+    assert.fieldEquals("AcceptedAsset", USDC_ASSET_ID, "totalAssets", usdc(100).toString())
+  })
+
+  test("a full claim closes the position", () => {
+    depositBoth(100)
+
+    // the contract emits PositionClosed from _exitPosition, before Claimed
+    handleFlyingPositionClosed(createPositionClosedEvent(BOB, 1, 1500))
+    handleFlyingClaimed(createClaimedEvent(BOB, 1, tokens(1000), USDC, usdc(100), 1500))
+
+    assert.fieldEquals("FlyingPosition", BOB_POSITION_ID, "isClosed", "true")
+    assert.fieldEquals("FlyingPosition", BOB_POSITION_ID, "closedAt", "1500")
+    assert.fieldEquals("FlyingPosition", BOB_POSITION_ID, "tokenAmount", "0")
+    assert.fieldEquals("FlyingPosition", BOB_POSITION_ID, "assetAmount", "0")
+    assert.fieldEquals("FlyingPosition", BOB_POSITION_ID, "vestingAmount", tokens(1000).toString())
+
+    assert.fieldEquals("FlyingICO", ICO_ID, "activePositionCount", "1")
+    assert.fieldEquals("Account", BOB.toHexString(), "activePositionCount", "0")
+    assert.fieldEquals("Account", BOB.toHexString(), "lockedTokens", "0")
+    assert.fieldEquals("AcceptedAsset", USDC_ASSET_ID, "backingAssets", "0")
+
+    assert.entityCount("PositionClosure", 1)
+    assert.entityCount("Claim", 1)
+  })
+
+  test("treasury sweeps only draw from released assets", () => {
+    depositBoth(100)
+
+    handleFlyingClaimed(createClaimedEvent(BOB, 1, tokens(750), USDC, usdc(75), 500))
+    handleFlyingAssetsTakenToTreasury(createAssetsTakenToTreasuryEvent(USDC, usdc(50), 600))
+
+    assert.fieldEquals("AcceptedAsset", USDC_ASSET_ID, "withdrawnAssets", usdc(50).toString())
+    assert.fieldEquals("AcceptedAsset", USDC_ASSET_ID, "availableAssets", usdc(25).toString())
+    assert.fieldEquals("AcceptedAsset", USDC_ASSET_ID, "backingAssets", usdc(25).toString())
+    assert.fieldEquals("AcceptedAsset", USDC_ASSET_ID, "totalAssets", usdc(50).toString())
+
+    assert.entityCount("TreasuryWithdrawal", 1)
+    assert.fieldEquals("FlyingICODayData", ICO_ID + "-0", "treasuryWithdrawalCount", "1")
+  })
+
+  test("treasuries aggregate releases and withdrawals per asset", () => {
+    depositBoth(100)
+
+    handleFlyingClaimed(createClaimedEvent(BOB, 1, tokens(750), USDC, usdc(75), 500))
+    handleFlyingAssetsTakenToTreasury(createAssetsTakenToTreasuryEvent(USDC, usdc(50), 600))
+
+    let treasuryId = TREASURY.toHexString()
+    let treasuryAssetId = treasuryId + "-" + USDC.toHexString()
+
+    assert.fieldEquals("Treasury", treasuryId, "icoCount", "1")
+    assert.fieldEquals("Treasury", treasuryId, "withdrawalCount", "1")
+    assert.fieldEquals("Treasury", treasuryId, "withdrawnUsd", "50")
+    assert.fieldEquals("Treasury", treasuryId, "availableUsd", "25")
+
+    assert.fieldEquals("TreasuryAsset", treasuryAssetId, "releasedAssets", usdc(75).toString())
+    assert.fieldEquals("TreasuryAsset", treasuryAssetId, "withdrawnAssets", usdc(50).toString())
+    assert.fieldEquals("TreasuryAsset", treasuryAssetId, "availableAssets", usdc(25).toString())
+    assert.fieldEquals("TreasuryAssetDayData", treasuryAssetId + "-0", "withdrawalCount", "1")
+  })
+
+  test("claimed tokens circulate between holders while the rest stay locked", () => {
+    depositBoth(100)
+    handleFlyingTransfer(createTransferEvent(Address.zero(), ICO, tokens(21000), 100))
+
+    handleFlyingClaimed(createClaimedEvent(BOB, 1, tokens(400), USDC, usdc(40), 500))
+    handleFlyingTransfer(createTransferEvent(ICO, BOB, tokens(400), 500))
+
+    assert.fieldEquals("FlyingICO", ICO_ID, "lockedSupply", tokens(20600).toString())
+    assert.fieldEquals("FlyingICO", ICO_ID, "circulatingSupply", tokens(400).toString())
+    assert.fieldEquals("FlyingICO", ICO_ID, "holderCount", "1")
+
+    handleFlyingTransfer(createTransferEvent(BOB, ALICE, tokens(100), 600))
+    assert.fieldEquals("FlyingICO", ICO_ID, "holderCount", "2")
+    assert.fieldEquals("TokenHolder", ICO_ID + "-" + ALICE.toHexString(), "balance", tokens(100).toString())
+
+    handleFlyingTransfer(createTransferEvent(BOB, ALICE, tokens(300), 700))
+    assert.fieldEquals("FlyingICO", ICO_ID, "holderCount", "1")
+    assert.fieldEquals("FlyingICO", ICO_ID, "circulatingSupply", tokens(400).toString())
+    assert.fieldEquals("TokenHolder", ICO_ID + "-" + BOB.toHexString(), "balance", "0")
+  })
+
+  test("polling moves the ICO through its vesting phases", () => {
+    depositBoth(100)
+    handleFlyingRedeemed(createRedeemedEvent(BOB, 1, tokens(250), USDC, usdc(25), 500))
+
+    pollBlock(900)
+    assert.fieldEquals("FlyingICO", ICO_ID, "phase", "PRE_VESTING")
+    assert.entityCount("PhaseTransition", 0)
+
+    pollBlock(1200)
+    assert.fieldEquals("FlyingICO", ICO_ID, "phase", "VESTING")
+    assert.fieldEquals("FlyingICO", ICO_ID, "phaseChangedAt", VESTING_START.toString())
+    assert.fieldEquals("PhaseTransition", ICO_ID + "-VESTING", "previousPhase", "PRE_VESTING")
+    assert.fieldEquals("PhaseTransition", ICO_ID + "-VESTING", "observedAt", "1200")
+    assert.fieldEquals("PhaseTransition", ICO_ID + "-VESTING", "redeemableTokens", tokens(20750).toString())
+
+    pollBlock(2500)
+    assert.fieldEquals("FlyingICO", ICO_ID, "phase", "LOCKED")
+    assert.fieldEquals("FlyingICO", ICO_ID, "phaseChangedAt", VESTING_END.toString())
+    assert.fieldEquals("PhaseTransition", ICO_ID + "-LOCKED", "lockedTokens", tokens(20750).toString())
+    assert.fieldEquals("PhaseTransition", ICO_ID + "-LOCKED", "redeemableTokens", "0")
+  })
+
+  test("a handler crossing both boundaries records each transition first", () => {
+    depositBoth(100)
+    handleFlyingClaimed(createClaimedEvent(BOB, 1, tokens(1000), USDC, usdc(100), 2500))
+
+    assert.fieldEquals("FlyingICO", ICO_ID, "phase", "LOCKED")
+    assert.entityCount("PhaseTransition", 2)
+    assert.fieldEquals("PhaseTransition", ICO_ID + "-VESTING", "lockedTokens", tokens(21000).toString())
+  })
+
+  test("cap utilization is tracked in basis points with one milestone per threshold", () => {
+    // cap of 1,000,000 tokens: 21,000 minted is 2.1%
+    depositBoth(100)
+    assert.fieldEquals("FlyingICO", ICO_ID, "tokenCapAmount", tokens(1000000).toString())
+    assert.fieldEquals("FlyingICO", ICO_ID, "capUtilizationBps", "210")
+    assert.entityCount("RaiseMilestone", 0)
+
+    // 2 ETH more mints 40,000 tokens each, up to 501,000 tokens
+    for (let i = 2; i < 14; i++) {
+      handleFlyingDeposited(createDepositedEvent(ALICE, i, ETH, ONE_ETH.times(BigInt.fromI32(2)), tokens(40000), 200))
+    }
+
+    assert.fieldEquals("FlyingICO", ICO_ID, "capUtilizationBps", "5010")
+    assert.fieldEquals("FlyingICO", ICO_ID, "highestMilestoneBps", "5000")
+    assert.entityCount("RaiseMilestone", 2)
+    assert.fieldEquals("RaiseMilestone", ICO_ID + "-2500", "timestamp", "200")
+
+    // falling back below 50% and crossing it again keeps the first milestone
+    handleFlyingRedeemed(createRedeemedEvent(ALICE, 2, tokens(40000), ETH, ONE_ETH.times(BigInt.fromI32(2)), 300))
+    assert.fieldEquals("FlyingICO", ICO_ID, "capUtilizationBps", "4610")
+    handleFlyingDeposited(createDepositedEvent(BOB, 14, ETH, ONE_ETH.times(BigInt.fromI32(2)), tokens(40000), 400))
+    assert.entityCount("RaiseMilestone", 2)
+  })
+
+  test("protocol totals roll up every ICO handler", () => {
+    depositBoth(100)
+    handleFlyingClaimed(createClaimedEvent(BOB, 1, tokens(750), USDC, usdc(75), 500))
+    handleFlyingAssetsTakenToTreasury(createAssetsTakenToTreasuryEvent(USDC, usdc(50), 600))
+
+    assert.fieldEquals("Protocol", "1", "icoCount", "1")
+    assert.fieldEquals("Protocol", "1", "userCount", "2")
+    assert.fieldEquals("Protocol", "1", "positionCount", "2")
+    assert.fieldEquals("Protocol", "1", "depositCount", "2")
+    assert.fieldEquals("Protocol", "1", "tokensMinted", tokens(21000).toString())
+    assert.fieldEquals("Protocol", "1", "tokensClaimed", tokens(750).toString())
+    assert.fieldEquals("Protocol", "1", "treasuryWithdrawalCount", "1")
+    assert.fieldEquals("Protocol", "1", "tvlUsd", "2050")
+
+    let usdcId = USDC.toHexString()
+    assert.fieldEquals("ProtocolAsset", usdcId, "icoCount", "1")
+    assert.fieldEquals("ProtocolAsset", usdcId, "depositedAssets", usdc(100).toString())
+    assert.fieldEquals("ProtocolAsset", usdcId, "backingAssets", usdc(25).toString())
+    assert.fieldEquals("ProtocolAsset", usdcId, "availableAssets", usdc(25).toString())
+    assert.fieldEquals("ProtocolAsset", usdcId, "backingUsd", "25")
+  })
+
+  test("deposits carrying a referral suffix are attributed to the referrer", () => {
+    // depositEther() calldata followed by "Alice_1", its length and the "FLYR" marker
+    let suffixed = Bytes.fromHexString("0x98ea5fca" + "416c6963655f31" + "07" + "464c5952")
+    let referred = createDepositedEvent(ALICE, 0, ETH, ONE_ETH, tokens(20000), 100)
+    referred.transaction.input = suffixed
+    handleFlyingDeposited(referred)
+
+    let again = createDepositedEvent(BOB, 1, USDC, usdc(100), tokens(1000), 200)
+    again.transaction.input = suffixed
+    handleFlyingDeposited(again)
+
+    // a truncated suffix is ignored
+    let malformed = createDepositedEvent(BOB, 2, USDC, usdc(100), tokens(1000), 300)
+    malformed.transaction.input = Bytes.fromHexString("0x98ea5fca" + "20" + "464c5952")
+    handleFlyingDeposited(malformed)
+
+    assert.entityCount("Referrer", 1)
+    assert.entityCount("Referral", 2)
+    assert.fieldEquals("Referrer", "alice_1", "depositCount", "2")
+    assert.fieldEquals("Referrer", "alice_1", "tokensMinted", tokens(21000).toString())
+    assert.fieldEquals("Referrer", "alice_1", "depositedUsd", "2100")
+    assert.fieldEquals("Referrer", "alice_1", "firstReferralAt", "100")
+    assert.fieldEquals("Referrer", "alice_1", "lastReferralAt", "200")
+
+    let depositId = referred.transaction.hash.concatI32(referred.logIndex.toI32()).toHexString()
+    assert.fieldEquals("Deposit", depositId, "referrer", "alice_1")
+    assert.fieldEquals("Referral", depositId, "usdValue", "2000")
+    assert.fieldEquals("Referral", depositId, "user", ALICE.toHexString())
+  })
+
+  test("balances are valued at the feed price and rolled up to the ICO and factory", () => {
+    depositBoth(100)
+    handleFlyingClaimed(createClaimedEvent(BOB, 1, tokens(400), USDC, usdc(40), 500))
+
+    assert.fieldEquals("AcceptedAsset", ETH_ASSET_ID, "backingUsd", "2000")
+    assert.fieldEquals("AcceptedAsset", USDC_ASSET_ID, "backingUsd", "60")
+    assert.fieldEquals("AcceptedAsset", USDC_ASSET_ID, "availableUsd", "40")
+    assert.fieldEquals("FlyingICO", ICO_ID, "backingUsd", "2060")
+    assert.fieldEquals("FlyingICO", ICO_ID, "availableUsd", "40")
+    assert.fieldEquals("FlyingICO", ICO_ID, "tvlUsd", "2100")
+    assert.fieldEquals("FactoryFlyingICO", FACTORY_ID, "tvlUsd", "2100")
+  })
+
+  test("a new feed answer revalues every asset priced by it", () => {
+    depositBoth(100)
+
+    let context = new DataSourceContext()
+    context.setString("feed", ETH_FEED.toHexString())
+    dataSourceMock.setAddressAndContext(ETH_FEED.toHexString(), context)
+
+    handleAnswerUpdated(createAnswerUpdatedEvent(ETH_FEED, 250000000000, 2, 200))
+
+    assert.fieldEquals("Oracle", ETH_FEED.toHexString(), "price", "2500")
+    assert.fieldEquals("Oracle", ETH_FEED.toHexString(), "roundId", "2")
+    assert.fieldEquals("PriceFeed", ETH_ASSET_ID, "staleAt", "3800")
+    assert.fieldEquals("PriceFeed", USDC_ASSET_ID, "staleAt", "86401")
+    assert.fieldEquals("AcceptedAsset", ETH_ASSET_ID, "backingUsd", "2500")
+    assert.fieldEquals("FlyingICO", ICO_ID, "tvlUsd", "2600")
+    assert.fieldEquals("FactoryFlyingICO", FACTORY_ID, "tvlUsd", "2600")
+    assert.fieldEquals("FlyingICOHourData", ICO_ID + "-0", "closeBackingUsd", "2600")
+  })
+
+  test("snapshots roll the backing forward across periods", () => {
+    depositBoth(100)
+
+    let context = new DataSourceContext()
+    context.setString("feed", ETH_FEED.toHexString())
+    dataSourceMock.setAddressAndContext(ETH_FEED.toHexString(), context)
+
+    // an hour later, with no ICO event in between
+    handleAnswerUpdated(createAnswerUpdatedEvent(ETH_FEED, 250000000000, 2, 3700))
+
+    assert.fieldEquals("FlyingICOHourData", ICO_ID + "-0", "closeBackingUsd", "2100")
+    assert.fieldEquals("FlyingICOHourData", ICO_ID + "-1", "openBackingUsd", "2100")
+    assert.fieldEquals("FlyingICOHourData", ICO_ID + "-1", "closeBackingUsd", "2600")
+    assert.fieldEquals("FlyingICOHourData", ICO_ID + "-1", "openTotalSupply", tokens(21000).toString())
+    assert.fieldEquals("FlyingICOHourData", ICO_ID + "-1", "depositCount", "0")
+    assert.fieldEquals("FlyingICODayData", ICO_ID + "-0", "openBackingUsd", "0")
+    assert.fieldEquals("FlyingICODayData", ICO_ID + "-0", "closeBackingUsd", "2600")
+  })
+})
+
+describe("standalone FlyingICO data sources", () => {
+  afterEach(() => {
+    clearStore()
+  })
+
+  test("initialization creates the ICO when no factory announced it", () => {
+    mockFeeds()
+
+    handleFlyingInitialized(createInitializedEvent(1000000, 10))
+
+    assert.entityCount("FactoryFlyingICO", 0)
+    assert.fieldEquals("FlyingICO", ICO_ID, "name", "Flying Token")
+    assert.fieldEquals("FlyingICO", ICO_ID, "positionCount", "0")
+    assert.entityCount("AcceptedAsset", 2)
+  })
+})
+
+describe("token metadata", () => {
+  afterEach(() => {
+    clearStore()
+  })
+
+  test("bytes32 names and symbols are decoded", () => {
+    mockFeeds()
+    mockBytes32ERC20(USDC, "MKR", 18)
+
+    handleFlyingInitialized(createInitializedEvent(1000000, 10))
+
+    assert.fieldEquals("Token", USDC.toHexString(), "symbol", "MKR")
+    assert.fieldEquals("Token", USDC.toHexString(), "name", "MKR")
+    assert.fieldEquals("AcceptedAsset", USDC_ASSET_ID, "symbol", "MKR")
+  })
+})
@@ -0,0 +1,231 @@
+import { newMockEvent, createMockedFunction } from "matchstick-as"
+import { Address, BigInt, Bytes, ethereum } from "@graphprotocol/graph-ts"
+import { Factory__FlyingIcoCreated } from "../generated/FactoryFlyingICO/FactoryFlyingICO"
+import {
+  FlyingICO__Initialized,
+  FlyingICO__Deposited,
+  FlyingICO__Redeemed,
+  FlyingICO__Claimed,
+  FlyingICO__PositionClosed,
+  FlyingICO__AssetsTakenToTreasury,
+  Transfer,
+} from "../generated/templates/FlyingICO/FlyingICO"
+import { AnswerUpdated } from "../generated/templates/ChainlinkAggregator/ChainlinkAggregator"
+
+export const FACTORY = Address.fromString("0x85e999bda865602232af835acc2806a5b77a99e2")
+export const ICO = Address.fromString("0xa16081f360e3847006db660bae1c6d1b2e17ec2a")
+export const ETH = Address.fromString("0x0000000000000000000000000000000000000000")
+export const USDC = Address.fromString("0xd6eddb13ad13767a2b4ad89ea94fca0c6ab0f8d2")
+export const ETH_FEED = Address.fromString("0x694aa1769357215de4fac081bf1f309adc325306")
+export const USDC_FEED = Address.fromString("0xa2f78ab2355fe2f984d808b5cee7fd0a93d5270e")
+export const TREASURY = Address.fromString("0x00000000000000000000000000000000000000aa")
+export const ALICE = Address.fromString("0x00000000000000000000000000000000000a11ce")
+export const BOB = Address.fromString("0x0000000000000000000000000000000000000b0b")
+
+export const VESTING_START = 1000
+export const VESTING_END = 2000
+
+// Each mock event gets its own log index so immutable activity ids do not collide
+let nextLogIndex = 0
+
+function newEvent(address: Address, timestamp: i32): ethereum.Event {
+  let event = newMockEvent()
+
+  event.address = address
+  event.logIndex = BigInt.fromI32(nextLogIndex++)
+  event.block.timestamp = BigInt.fromI32(timestamp)
+
+  return event
+}
+
+function addressParam(name: string, value: Address): ethereum.EventParam {
+  return new ethereum.EventParam(name, ethereum.Value.fromAddress(value))
+}
+
+function uintParam(name: string, value: BigInt): ethereum.EventParam {
+  return new ethereum.EventParam(name, ethereum.Value.fromUnsignedBigInt(value))
+}
+
+export function tokens(amount: i32): BigInt {
+  return BigInt.fromI32(amount).times(BigInt.fromI32(10).pow(18))
+}
+
+export function mockERC20(address: Address, symbol: string, decimals: i32): void {
+  createMockedFunction(address, "decimals", "decimals():(uint8)").returns([ethereum.Value.fromI32(decimals)])
+  createMockedFunction(address, "symbol", "symbol():(string)").returns([ethereum.Value.fromString(symbol)])
+  createMockedFunction(address, "name", "name():(string)").returns([ethereum.Value.fromString(symbol + " Token")])
+}
+
+// MKR-style token returning bytes32 from name() and symbol()
+export function mockBytes32ERC20(address: Address, symbol: string, decimals: i32): void {
+  createMockedFunction(address, "decimals", "decimals():(uint8)").returns([ethereum.Value.fromI32(decimals)])
+  createMockedFunction(address, "symbol", "symbol():(string)").reverts()
+  createMockedFunction(address, "name", "name():(string)").reverts()
+  createMockedFunction(address, "symbol", "symbol():(bytes32)").returns([
+    ethereum.Value.fromFixedBytes(Bytes.fromUTF8(symbol).concat(new Bytes(32 - symbol.length))),
+  ])
+  createMockedFunction(address, "name", "name():(bytes32)").returns([
+    ethereum.Value.fromFixedBytes(Bytes.fromUTF8(symbol).concat(new Bytes(32 - symbol.length))),
+  ])
+}
+
+// Mocks a Chainlink feed that is its own aggregator and reports `answer` at 8 decimals
+export function mockPriceFeed(feed: Address, description: string, answer: i64): void {
+  createMockedFunction(feed, "aggregator", "aggregator():(address)").returns([ethereum.Value.fromAddress(feed)])
+  createMockedFunction(feed, "decimals", "decimals():(uint8)").returns([ethereum.Value.fromI32(8)])
+  createMockedFunction(feed, "description", "description():(string)").returns([
+    ethereum.Value.fromString(description),
+  ])
+  createMockedFunction(
+    feed,
+    "latestRoundData",
+    "latestRoundData():(uint80,int256,uint256,uint256,uint80)"
+  ).returns([
+    ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(1)),
+    ethereum.Value.fromSignedBigInt(BigInt.fromI64(answer)),
+    ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(1)),
+    ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(1)),
+    ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(1)),
+  ])
+}
+
+export function createFlyingIcoCreatedEvent(flyingIco: Address): Factory__FlyingIcoCreated {
+  let event = changetype<Factory__FlyingIcoCreated>(newEvent(FACTORY, 1))
+
+  event.parameters = [addressParam("flyingIco", flyingIco)]
+  event.transaction.from = ALICE
+
+  return event
+}
+
+export function createInitializedEvent(tokenCap: i32, tokensPerUsd: i32): FlyingICO__Initialized {
+  let event = changetype<FlyingICO__Initialized>(newEvent(ICO, 1))
+
+  event.parameters = [
+    new ethereum.EventParam("name", ethereum.Value.fromString("Flying Token")),
+    new ethereum.EventParam("symbol", ethereum.Value.fromString("FLY")),
+    uintParam("tokenCap", BigInt.fromI32(tokenCap)),
+    uintParam("tokensPerUsd", BigInt.fromI32(tokensPerUsd)),
+    new ethereum.EventParam("acceptedAssets", ethereum.Value.fromAddressArray([ETH, USDC])),
+    new ethereum.EventParam("priceFeeds", ethereum.Value.fromAddressArray([ETH_FEED, USDC_FEED])),
+    new ethereum.EventParam(
+      "frequencies",
+      ethereum.Value.fromUnsignedBigIntArray([BigInt.fromI32(3600), BigInt.fromI32(86400)])
+    ),
+    addressParam("sequencer", ETH),
+    addressParam("treasury", TREASURY),
+    uintParam("vestingStart", BigInt.fromI32(VESTING_START)),
+    uintParam("vestingEnd", BigInt.fromI32(VESTING_END)),
+  ]
+
+  return event
+}
+
+export function createDepositedEvent(
+  user: Address,
+  positionId: i32,
+  asset: Address,
+  assetAmount: BigInt,
+  tokensMinted: BigInt,
+  timestamp: i32
+): FlyingICO__Deposited {
+  let event = changetype<FlyingICO__Deposited>(newEvent(ICO, timestamp))
+
+  event.parameters = [
+    addressParam("user", user),
+    uintParam("positionId", BigInt.fromI32(positionId)),
+    addressParam("asset", asset),
+    uintParam("assetAmount", assetAmount),
+    uintParam("tokensMinted", tokensMinted),
+  ]
+
+  return event
+}
+
+export function createRedeemedEvent(
+  user: Address,
+  positionId: i32,
+  tokensBurned: BigInt,
+  asset: Address,
+  assetAmount: BigInt,
+  timestamp: i32
+): FlyingICO__Redeemed {
+  let event = changetype<FlyingICO__Redeemed>(newEvent(ICO, timestamp))
+
+  event.parameters = [
+    addressParam("user", user),
+    uintParam("positionId", BigInt.fromI32(positionId)),
+    uintParam("tokensBurned", tokensBurned),
+    addressParam("assetReturned", asset),
+    uintParam("assetReturnedAmount", assetAmount),
+  ]
+
+  return event
+}
+
+export function createClaimedEvent(
+  user: Address,
+  positionId: i32,
+  tokensClaimed: BigInt,
+  asset: Address,
+  assetAmount: BigInt,
+  timestamp: i32
+): FlyingICO__Claimed {
+  let event = changetype<FlyingICO__Claimed>(newEvent(ICO, timestamp))
+
+  event.parameters = [
+    addressParam("user", user),
+    uintParam("positionId", BigInt.fromI32(positionId)),
+    uintParam("tokensClaimed", tokensClaimed),
+    addressParam("assetReleased", asset),
+    uintParam("assetReleasedAmount", assetAmount),
+  ]
+
+  return event
+}
+
+export function createPositionClosedEvent(user: Address, positionId: i32, timestamp: i32): FlyingICO__PositionClosed {
+  let event = changetype<FlyingICO__PositionClosed>(newEvent(ICO, timestamp))
+
+  event.parameters = [addressParam("user", user), uintParam("positionId", BigInt.fromI32(positionId))]
+
+  return event
+}
+
+export function createAssetsTakenToTreasuryEvent(
+  asset: Address,
+  assetAmount: BigInt,
+  timestamp: i32
+): FlyingICO__AssetsTakenToTreasury {
+  let event = changetype<FlyingICO__AssetsTakenToTreasury>(newEvent(ICO, timestamp))
+
+  event.parameters = [addressParam("asset", asset), uintParam("assetAmount", assetAmount)]
+  event.transaction.from = TREASURY
+
+  return event
+}
+
+export function createTransferEvent(from: Address, to: Address, value: BigInt, timestamp: i32): Transfer {
+  let event = changetype<Transfer>(newEvent(ICO, timestamp))
+
+  event.parameters = [addressParam("from", from), addressParam("to", to), uintParam("value", value)]
+
+  return event
+}
+
+export function createAnswerUpdatedEvent(
+  feed: Address,
+  answer: i64,
+  roundId: i32,
+  timestamp: i32
+): AnswerUpdated {
+  let event = changetype<AnswerUpdated>(newEvent(feed, timestamp))
+
+  event.parameters = [
+    new ethereum.EventParam("current", ethereum.Value.fromSignedBigInt(BigInt.fromI64(answer))),
+    uintParam("roundId", BigInt.fromI32(roundId)),
+    uintParam("updatedAt", BigInt.fromI32(timestamp)),
+  ]
+
+  return event
+}